@@ -0,0 +1,78 @@
+import { auth } from '@clerk/nextjs';
+
+import {
+  AlbumManager,
+  DeleteAlbumConfirmation,
+} from '@/components/shared/Albums';
+import { Collection } from '@/components/shared/Collection';
+import Header from '@/components/shared/Header';
+import { VisibilityControl } from '@/components/shared/VisibilityControl';
+import {
+  getAlbumById,
+  updateAlbumVisibility,
+} from '@/lib/actions/album.actions';
+
+const AlbumDetails = async ({
+  params: { id },
+  searchParams,
+}: SearchParamProps) => {
+  const { userId } = auth();
+
+  const shareToken =
+    typeof searchParams?.share === 'string' ? searchParams.share : undefined;
+  const album = await getAlbumById(id, shareToken);
+  const isOwner = userId === album.author.clerkId;
+
+  const onVisibilityChange = async (visibility: ImageVisibility) => {
+    'use server';
+
+    return updateAlbumVisibility({
+      albumId: id,
+      visibility,
+      path: `/albums/${id}`,
+    });
+  };
+
+  return (
+    <>
+      <Header
+        title={album.title}
+        subtitle={
+          album.description ||
+          `By ${album.author.firstName} ${album.author.lastName}`
+        }
+      />
+
+      {isOwner && (
+        <section className='mt-5 space-y-4'>
+          <VisibilityControl
+            visibility={album.visibility ?? 'public'}
+            shareToken={album.shareToken}
+            path={`/albums/${album._id}`}
+            onVisibilityChange={onVisibilityChange}
+          />
+
+          <DeleteAlbumConfirmation albumId={album._id} />
+        </section>
+      )}
+
+      <section className='mt-8 md:mt-14'>
+        <Collection
+          title='Images'
+          images={album.images}
+          totalImages={album.images.length}
+        />
+      </section>
+
+      {isOwner && album.images.length > 0 && (
+        <AlbumManager
+          albumId={album._id}
+          images={album.images}
+          coverId={album.cover?._id}
+        />
+      )}
+    </>
+  );
+};
+
+export default AlbumDetails;
@@ -0,0 +1,113 @@
+import { auth } from '@clerk/nextjs';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+
+import Header from '@/components/shared/Header';
+import {
+  FrozenAccountNotice,
+  TransactionEvents,
+  TransactionStatusBadge,
+} from '@/components/shared/TransactionStatus';
+import { Button } from '@/components/ui/button';
+import { ITransaction } from '@/lib/database/models/transaction.model';
+import { getUserTransactions } from '@/lib/actions/transaction.actions';
+import { getUserById } from '@/lib/actions/user.actions';
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+const Billing = async ({ searchParams }: SearchParamProps) => {
+  const cursor = (searchParams?.cursor as string) || null;
+  const { userId } = auth();
+
+  if (!userId) redirect('/sign-in');
+
+  const user = await getUserById(userId);
+  const transactions = await getUserTransactions({ cursor });
+
+  return (
+    <>
+      <Header
+        title='Billing'
+        subtitle='Your purchases and subscription payments, with their invoices'
+      />
+
+      <FrozenAccountNotice frozen={user.frozen} />
+
+      <section className='mt-8 md:mt-14'>
+        {transactions?.data.length ? (
+          <ul className='billing-list'>
+            {transactions.data.map((transaction: ITransaction) => (
+              <li key={transaction._id} className='billing-item'>
+                <div className='flex-between gap-4'>
+                  <div className='flex flex-col gap-1'>
+                    <p className='p-20-semibold text-dark-600'>
+                      {transaction.plan || 'Credits'}
+                    </p>
+                    <p className='p-14-medium text-dark-400'>
+                      {new Date(transaction.createdAt!).toLocaleDateString()}
+                      {' · '}
+                      {transaction.credits ?? 0} credits
+                    </p>
+                    {transaction.promoCode && (
+                      <p className='p-14-medium text-dark-400'>
+                        Promo code {transaction.promoCode}
+                        {transaction.discount > 0 &&
+                          ` · ${formatAmount(transaction.discount)} off`}
+                        {transaction.bonusCredits > 0 &&
+                          ` · ${transaction.bonusCredits} bonus credits`}
+                      </p>
+                    )}
+                    <p className='p-14-medium break-all text-dark-400'>
+                      {transaction.stripeId}
+                    </p>
+                    <a
+                      href={`/api/transactions/${transaction._id}/invoice`}
+                      className='p-14-medium text-purple-400 hover:underline'
+                    >
+                      Download invoice (PDF)
+                    </a>
+                  </div>
+                  <div className='flex flex-col items-end gap-1'>
+                    <p className='p-20-semibold text-dark-600'>
+                      {formatAmount(transaction.amount)}
+                    </p>
+                    <TransactionStatusBadge status={transaction.status} />
+                  </div>
+                </div>
+
+                <TransactionEvents events={transaction.events} />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className='collection-empty'>
+            <p className='p-20-semibold'>No transactions yet</p>
+          </div>
+        )}
+
+        {(transactions?.prevCursor || transactions?.nextCursor) && (
+          <div className='mt-10 flex justify-between'>
+            {transactions.prevCursor ? (
+              <Button asChild className='collection-btn'>
+                <Link href={`/billing?cursor=${transactions.prevCursor}`}>
+                  Previous
+                </Link>
+              </Button>
+            ) : (
+              <span />
+            )}
+            {transactions.nextCursor && (
+              <Button asChild className='collection-btn'>
+                <Link href={`/billing?cursor=${transactions.nextCursor}`}>
+                  Next
+                </Link>
+              </Button>
+            )}
+          </div>
+        )}
+      </section>
+    </>
+  );
+};
+
+export default Billing;
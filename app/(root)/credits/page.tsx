@@ -4,17 +4,47 @@ import { redirect } from 'next/navigation';
 
 import Header from '@/components/shared/Header';
 import { Button } from '@/components/ui/button';
-import { plans } from '@/constants';
+import { Input } from '@/components/ui/input';
+import { plans, subscriptionPlans } from '@/constants';
 import { getUserById } from '@/lib/actions/user.actions';
 import Checkout from '@/components/shared/Checkout';
+import {
+  checkoutSubscription,
+  manageSubscription,
+} from '@/lib/actions/transaction.actions';
+import { IPromoCode } from '@/lib/database/models/promoCode.model';
+import {
+  describePromoCode,
+  findRedeemablePromoCode,
+  priceWithPromoCode,
+} from '@/lib/promo-codes';
+import { cn } from '@/lib/utils';
 
-const Credits = async () => {
+const Credits = async ({ searchParams }: SearchParamProps) => {
+  const promo = ((searchParams?.promo as string) || '').trim();
   const { userId } = auth();
 
   if (!userId) redirect('/sign-in');
 
   const user = await getUserById(userId);
 
+  let promoCode: IPromoCode | null = null;
+  let promoError = '';
+
+  if (promo) {
+    try {
+      promoCode = await findRedeemablePromoCode(promo, user._id);
+    } catch (error) {
+      promoError = (error as Error).message;
+    }
+  }
+
+  const onManageSubscription = async () => {
+    'use server';
+
+    await manageSubscription();
+  };
+
   return (
     <>
       <Header
@@ -23,54 +53,166 @@ const Credits = async () => {
       />
 
       <section>
+        {/* Promo code, applied by reloading the page with it */}
+        <form className='credits-promo'>
+          <Input
+            name='promo'
+            defaultValue={promo}
+            placeholder='Promo code'
+            className='input-field'
+          />
+          <Button type='submit' className='credits-promo_btn'>
+            Apply
+          </Button>
+        </form>
+        {promo && (
+          <p
+            className={cn(
+              'credits-promo_message',
+              !promoCode && 'credits-promo_error'
+            )}
+          >
+            {promoCode
+              ? `${promoCode.code} applied: ${describePromoCode(promoCode)}`
+              : promoError}
+          </p>
+        )}
+
+        <ul className='credits-list'>
+          {plans.map((plan) => {
+            const price = priceWithPromoCode(
+              plan,
+              plan.price > 0 ? promoCode : null
+            );
+
+            return (
+              <li key={plan.name} className='credits-item'>
+                <div className='flex-center flex-col gap-3'>
+                  <Image src={plan.icon} alt='check' width={50} height={50} />
+                  <p className='p-20-semibold mt-2 text-purple-500'>
+                    {plan.name}
+                  </p>
+                  <p className='h1-semibold text-dark-600'>
+                    ${price.amount}
+                    {price.discount > 0 && (
+                      <span className='p-16-regular ml-2 text-dark-400 line-through'>
+                        ${plan.price}
+                      </span>
+                    )}
+                  </p>
+                  <p className='p-16-regular'>
+                    {price.credits} Credits
+                    {price.bonusCredits > 0 && ` (${price.bonusCredits} bonus)`}
+                  </p>
+                </div>
+
+                {/* Inclusions */}
+                <ul className='flex flex-col gap-5 py-9'>
+                  {plan.inclusions.map((inclusion) => (
+                    <li
+                      key={plan.name + inclusion.label}
+                      className='flex items-center gap-4'
+                    >
+                      <Image
+                        src={`/assets/icons/${
+                          inclusion.isIncluded ? 'check.svg' : 'cross.svg'
+                        }`}
+                        alt='check'
+                        width={24}
+                        height={24}
+                      />
+                      <p className='p-16-regular'>{inclusion.label}</p>
+                    </li>
+                  ))}
+                </ul>
+
+                {plan.name === 'Free' ? (
+                  <Button variant='outline' className='credits-btn'>
+                    Free Consumable
+                  </Button>
+                ) : (
+                  <SignedIn>
+                    <Checkout plan={plan.name} promoCode={promoCode?.code} />
+                  </SignedIn>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      <section className='mt-10 border-t border-dark-400/15 pt-8'>
+        <h3 className='h3-bold text-dark-600'>Monthly Plans</h3>
+        <p className='p-16-regular mt-4'>
+          Get fresh credits every month, and cheaper transformations while you
+          stay subscribed.
+        </p>
+
         <ul className='credits-list'>
-          {plans.map((plan) => (
-            <li key={plan.name} className='credits-item'>
-              <div className='flex-center flex-col gap-3'>
-                <Image src={plan.icon} alt='check' width={50} height={50} />
-                <p className='p-20-semibold mt-2 text-purple-500'>
-                  {plan.name}
-                </p>
-                <p className='h1-semibold text-dark-600'>${plan.price}</p>
-                <p className='p-16-regular'>{plan.credits} Credits</p>
-              </div>
-
-              {/* Inclusions */}
-              <ul className='flex flex-col gap-5 py-9'>
-                {plan.inclusions.map((inclusion) => (
-                  <li
-                    key={plan.name + inclusion.label}
-                    className='flex items-center gap-4'
-                  >
-                    <Image
-                      src={`/assets/icons/${
-                        inclusion.isIncluded ? 'check.svg' : 'cross.svg'
-                      }`}
-                      alt='check'
-                      width={24}
-                      height={24}
-                    />
-                    <p className='p-16-regular'>{inclusion.label}</p>
-                  </li>
-                ))}
-              </ul>
-
-              {plan.name === 'Free' ? (
-                <Button variant='outline' className='credits-btn'>
-                  Free Consumable
-                </Button>
-              ) : (
-                <SignedIn>
-                  <Checkout
-                    plan={plan.name}
-                    amount={plan.price}
-                    credits={plan.credits}
-                    buyerId={user._id}
-                  />
-                </SignedIn>
-              )}
-            </li>
-          ))}
+          {subscriptionPlans.map((plan) => {
+            const isCurrent = user.subscription?.plan === plan._id;
+
+            const onSubscribe = async () => {
+              'use server';
+
+              await checkoutSubscription(plan._id);
+            };
+
+            return (
+              <li key={plan._id} className='credits-item'>
+                <div className='flex-center flex-col gap-3'>
+                  <Image src={plan.icon} alt='check' width={50} height={50} />
+                  <p className='p-20-semibold mt-2 text-purple-500'>
+                    {plan.name}
+                  </p>
+                  <p className='h1-semibold text-dark-600'>
+                    ${plan.price}
+                    <span className='p-16-regular'>/{plan.interval}</span>
+                  </p>
+                  <p className='p-16-regular'>{plan.credits} Credits</p>
+                </div>
+
+                {/* Inclusions */}
+                <ul className='flex flex-col gap-5 py-9'>
+                  {plan.inclusions.map((inclusion) => (
+                    <li
+                      key={plan._id + inclusion.label}
+                      className='flex items-center gap-4'
+                    >
+                      <Image
+                        src={`/assets/icons/${
+                          inclusion.isIncluded ? 'check.svg' : 'cross.svg'
+                        }`}
+                        alt='check'
+                        width={24}
+                        height={24}
+                      />
+                      <p className='p-16-regular'>{inclusion.label}</p>
+                    </li>
+                  ))}
+                </ul>
+
+                {isCurrent ? (
+                  <form action={onManageSubscription}>
+                    <Button type='submit' className='credits-btn'>
+                      Manage Subscription
+                    </Button>
+                  </form>
+                ) : (
+                  <form action={onSubscribe}>
+                    <Button
+                      type='submit'
+                      role='link'
+                      disabled={!!user.subscription}
+                      className='w-full rounded-full bg-purple-gradient bg-cover'
+                    >
+                      Subscribe
+                    </Button>
+                  </form>
+                )}
+              </li>
+            );
+          })}
         </ul>
       </section>
     </>
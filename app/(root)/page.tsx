@@ -1,14 +1,28 @@
 import { Collection } from '@/components/shared/Collection';
 import { navLinks } from '@/constants';
 import { getAllImages } from '@/lib/actions/image.actions';
+import { getImageFilters } from '@/lib/utils';
 import Image from 'next/image';
 import Link from 'next/link';
 
 const Home = async ({ searchParams }: SearchParamProps) => {
-  const page = Number(searchParams?.page) || 1;
+  const cursor = (searchParams?.cursor as string) || null;
   const searchQuery = (searchParams?.query as string) || '';
 
-  const images = await getAllImages({ page, searchQuery });
+  const filters = getImageFilters(searchParams);
+
+  const images = await getAllImages({ cursor, searchQuery, filters });
+
+  const loadMore = async (nextCursor: string) => {
+    'use server';
+
+    return getAllImages({
+      cursor: nextCursor,
+      searchQuery,
+      filters,
+      withSummary: false,
+    });
+  };
 
   return (
     <>
@@ -38,8 +52,11 @@ const Home = async ({ searchParams }: SearchParamProps) => {
         <Collection
           hasSearch={true}
           images={images?.data}
-          totalPages={images?.totalPage}
-          page={page}
+          nextCursor={images?.nextCursor}
+          totalImages={images?.totalImages}
+          isTotalApproximate={images?.isTotalApproximate}
+          facets={images?.facets}
+          loadMore={loadMore}
         />
       </section>
     </>
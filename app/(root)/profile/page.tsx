@@ -1,25 +1,46 @@
 import { auth } from '@clerk/nextjs';
 import Image from 'next/image';
+import Link from 'next/link';
 import { redirect } from 'next/navigation';
 
+import { AlbumList } from '@/components/shared/Albums';
 import { Collection } from '@/components/shared/Collection';
 import Header from '@/components/shared/Header';
+import { PresetList } from '@/components/shared/Presets';
+import { getUserAlbums } from '@/lib/actions/album.actions';
 import { getUserImages } from '@/lib/actions/image.actions';
+import { getUserFavorites } from '@/lib/actions/like.actions';
+import { getUserPresets } from '@/lib/actions/preset.actions';
 import { getUserById } from '@/lib/actions/user.actions';
+import { cn } from '@/lib/utils';
 
 const Profile = async ({ searchParams }: SearchParamProps) => {
-  const page = Number(searchParams?.page) || 1;
+  const cursor = (searchParams?.cursor as string) || null;
+  const isFavorites = searchParams?.tab === 'favorites';
   const { userId } = auth();
 
   if (!userId) redirect('/sign-in');
 
   const user = await getUserById(userId);
-  const images = await getUserImages({ page, userId: user._id });
+  const images = await getUserImages({
+    cursor: isFavorites ? null : cursor,
+    userId: user._id,
+  });
+  const favorites = isFavorites ? await getUserFavorites({ cursor }) : null;
+  const presets = await getUserPresets();
+  const albums = await getUserAlbums();
 
   return (
     <>
       <Header title='Profile' />
 
+      <Link
+        href={`/u/${user.username}`}
+        className='p-16-semibold mt-4 inline-block text-purple-400 hover:underline'
+      >
+        View public profile
+      </Link>
+
       <section className='profile'>
         <div className='profile-balance'>
           <p className='p-14-medium md:p-16-medium'>CREDITS AVAILABLE</p>
@@ -45,18 +66,49 @@ const Profile = async ({ searchParams }: SearchParamProps) => {
               height={50}
               className='size-9 md:size-12'
             />
-            <h2 className='h2-bold text-dark-600'>{images?.data.length}</h2>
+            <h2 className='h2-bold text-dark-600'>{images?.totalImages}</h2>
           </div>
         </div>
       </section>
 
-      <section className='mt-8 md:mt-14'>
-        <Collection
-          images={images?.data}
-          totalPages={images?.totalPages}
-          page={page}
-        />
+      <nav className='profile-tabs'>
+        <Link
+          href='/profile'
+          className={cn('profile-tab', !isFavorites && 'profile-tab_active')}
+        >
+          Images
+        </Link>
+        <Link
+          href='/profile?tab=favorites'
+          className={cn('profile-tab', isFavorites && 'profile-tab_active')}
+        >
+          Favorites
+        </Link>
+      </nav>
+
+      <section className='mt-8'>
+        {isFavorites ? (
+          <Collection
+            title='Favorites'
+            images={favorites?.data}
+            nextCursor={favorites?.nextCursor}
+            prevCursor={favorites?.prevCursor}
+            totalImages={favorites?.totalImages}
+            albums={albums ?? []}
+          />
+        ) : (
+          <Collection
+            images={images?.data}
+            nextCursor={images?.nextCursor}
+            prevCursor={images?.prevCursor}
+            albums={albums ?? []}
+          />
+        )}
       </section>
+
+      <AlbumList albums={albums ?? []} isOwner={true} />
+
+      <PresetList presets={presets ?? []} />
     </>
   );
 };
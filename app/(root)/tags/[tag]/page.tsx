@@ -0,0 +1,58 @@
+import { notFound } from 'next/navigation';
+
+import { Collection } from '@/components/shared/Collection';
+import Header from '@/components/shared/Header';
+import { getAllImages } from '@/lib/actions/image.actions';
+import { getImageFilters, normalizeTag } from '@/lib/utils';
+
+const TagImages = async ({
+  params,
+  searchParams,
+}: {
+  params: { tag: string };
+  searchParams: SearchParamProps['searchParams'];
+}) => {
+  const tag = normalizeTag(params.tag);
+
+  if (!tag) notFound();
+
+  const cursor = (searchParams?.cursor as string) || null;
+  const searchQuery = (searchParams?.query as string) || '';
+
+  // The tag in the path wins over a tag filter in the query.
+  const filters = { ...getImageFilters(searchParams), tag };
+
+  const images = await getAllImages({ cursor, searchQuery, filters });
+
+  const loadMore = async (nextCursor: string) => {
+    'use server';
+
+    return getAllImages({
+      cursor: nextCursor,
+      searchQuery,
+      filters,
+      withSummary: false,
+    });
+  };
+
+  return (
+    <>
+      <Header title={`#${tag}`} subtitle='Public images with this tag' />
+
+      <section className='mt-8 md:mt-14'>
+        <Collection
+          title='Tagged Images'
+          hasSearch={true}
+          images={images?.data}
+          nextCursor={images?.nextCursor}
+          totalImages={images?.totalImages}
+          isTotalApproximate={images?.isTotalApproximate}
+          facets={images?.facets && { ...images.facets, tags: [] }}
+          loadMore={loadMore}
+        />
+      </section>
+    </>
+  );
+};
+
+export default TagImages;
@@ -1,24 +1,82 @@
 import { auth } from '@clerk/nextjs';
 import Image from 'next/image';
 import Link from 'next/link';
+import { Fragment } from 'react';
 
 import Header from '@/components/shared/Header';
 import TransformedImage from '@/components/shared/TransformedImage';
 import { Button } from '@/components/ui/button';
-import { getImageById } from '@/lib/actions/image.actions';
-import { getImageSize } from '@/lib/utils';
+import {
+  getImageById,
+  getRemixLineage,
+  recordImageView,
+  updateImageVisibility,
+} from '@/lib/actions/image.actions';
+import { getImageSize, getTransformationSteps } from '@/lib/utils';
+import { transformationTypes } from '@/constants';
 import { DeleteConfirmation } from '@/components/shared/DeleteConfirmation';
+import { ImageHistory } from '@/components/shared/ImageHistory';
+import { VisibilityControl } from '@/components/shared/VisibilityControl';
+import { getImageRevisions } from '@/lib/actions/revision.actions';
+import { getUserAlbums } from '@/lib/actions/album.actions';
+import { AddToAlbum } from '@/components/shared/AddToAlbum';
+import { LikeButton } from '@/components/shared/LikeButton';
+import { AuthorLink } from '@/components/shared/AuthorLink';
+import { Comments } from '@/components/shared/Comments';
+import { getImageComments } from '@/lib/actions/comment.actions';
 
-const ImageDetails = async ({ params: { id } }: SearchParamProps) => {
+const ImageDetails = async ({
+  params: { id },
+  searchParams,
+}: SearchParamProps) => {
   const { userId } = auth();
 
-  const image = await getImageById(id);
+  const shareToken =
+    typeof searchParams?.share === 'string' ? searchParams.share : undefined;
+  const image = await getImageById(id, shareToken);
+  const isOwner = userId === image.author.clerkId;
+
+  if (!isOwner) await recordImageView(image._id, shareToken);
+  const revisions = isOwner ? await getImageRevisions(image._id) : [];
+  const steps = getTransformationSteps(image);
+  const albums = userId ? await getUserAlbums() : [];
+  const comments = await getImageComments({ imageId: id, shareToken });
+  const lineage = await getRemixLineage(image._id);
+
+  const remixPath = `/transformations/add/${image.transformationType}?remix=${
+    image._id
+  }${shareToken ? `&share=${shareToken}` : ''}`;
+
+  const onVisibilityChange = async (visibility: ImageVisibility) => {
+    'use server';
+
+    return updateImageVisibility({
+      imageId: id,
+      visibility,
+      path: `/transformations/${id}`,
+    });
+  };
 
   return (
     <>
       <Header title={image.title} />
 
-      <section className='mt-5 flex flex-wrap gap-4'>
+      <section className='mt-5 flex flex-wrap items-center gap-4'>
+        <AuthorLink
+          author={image.author}
+          size={32}
+          className='p-14-medium md:p-16-medium'
+        />
+
+        <p className='hidden text-dark-400/50 md:block'>&#x25CF;</p>
+        <LikeButton
+          imageId={image._id}
+          isLiked={image.isLiked}
+          likeCount={image.likeCount}
+          shareToken={shareToken}
+        />
+
+        <p className='hidden text-dark-400/50 md:block'>&#x25CF;</p>
         <div className='p-14-medium md:p-16-medium flex gap-2'>
           <p className='text-dark-600'>Transformation:</p>
           <p className=' capitalize text-purple-400'>
@@ -26,6 +84,20 @@ const ImageDetails = async ({ params: { id } }: SearchParamProps) => {
           </p>
         </div>
 
+        {steps.length > 1 && (
+          <>
+            <p className='hidden text-dark-400/50 md:block'>&#x25CF;</p>
+            <div className='p-14-medium md:p-16-medium flex gap-2'>
+              <p className='text-dark-600'>Steps:</p>
+              <p className='text-purple-400'>
+                {steps
+                  .map((step) => transformationTypes[step.type].title)
+                  .join(' \u2192 ')}
+              </p>
+            </div>
+          </>
+        )}
+
         {image.prompt && (
           <>
             <p className='hidden text-dark-400/50 md:block'>&#x25CF;</p>
@@ -57,6 +129,60 @@ const ImageDetails = async ({ params: { id } }: SearchParamProps) => {
         )}
       </section>
 
+      {image.tags?.length > 0 && (
+        <div className='tag-list mt-5'>
+          {image.tags.map((tag: string) => (
+            <Link key={tag} href={`/tags/${tag}`} className='tag-chip'>
+              #{tag}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {lineage && (lineage.ancestors.length > 0 || lineage.remixCount > 0) && (
+        <section className='mt-5 flex flex-col gap-2'>
+          {lineage.ancestors.length > 0 && (
+            <div className='p-14-medium md:p-16-medium flex flex-wrap gap-2'>
+              <p className='text-dark-600'>Remix of:</p>
+              {lineage.ancestors.map(
+                (ancestor: { _id: string; title: string }, index: number) => (
+                  <Fragment key={ancestor._id}>
+                    {index > 0 && (
+                      <span className='text-dark-400/50'>&larr;</span>
+                    )}
+                    <Link
+                      href={`/transformations/${ancestor._id}`}
+                      className='text-purple-400'
+                    >
+                      {ancestor.title}
+                    </Link>
+                  </Fragment>
+                )
+              )}
+            </div>
+          )}
+
+          {lineage.remixCount > 0 && (
+            <div className='p-14-medium md:p-16-medium flex flex-wrap gap-2'>
+              <p className='text-dark-600'>Remixes ({lineage.remixCount}):</p>
+              {lineage.remixes.map(
+                (remix: { _id: string; title: string }, index: number) => (
+                  <Fragment key={remix._id}>
+                    {index > 0 && <span className='text-dark-400/50'>·</span>}
+                    <Link
+                      href={`/transformations/${remix._id}`}
+                      className='text-purple-400'
+                    >
+                      {remix.title}
+                    </Link>
+                  </Fragment>
+                )
+              )}
+            </div>
+          )}
+        </section>
+      )}
+
       <section className='mt-10 border-t border-dark-400/15'>
         <div className='transformation-grid'>
           {/* MEDIA UPLOADER */}
@@ -83,8 +209,15 @@ const ImageDetails = async ({ params: { id } }: SearchParamProps) => {
           />
         </div>
 
-        {userId === image.author.clerkId && (
+        {isOwner && (
           <div className='mt-4 space-y-4'>
+            <VisibilityControl
+              visibility={image.visibility ?? 'public'}
+              shareToken={image.shareToken}
+              path={`/transformations/${image._id}`}
+              onVisibilityChange={onVisibilityChange}
+            />
+
             <Button asChild type='button' className='submit-button capitalize'>
               <Link href={`/transformations/${image._id}/update`}>
                 Update Image
@@ -94,7 +227,26 @@ const ImageDetails = async ({ params: { id } }: SearchParamProps) => {
             <DeleteConfirmation imageId={image._id} />
           </div>
         )}
+
+        <div className='mt-4 space-y-4'>
+          <Button asChild type='button' className='submit-button capitalize'>
+            <Link href={remixPath}>Remix</Link>
+          </Button>
+
+          {userId && <AddToAlbum imageId={image._id} albums={albums ?? []} />}
+        </div>
       </section>
+
+      {isOwner && <ImageHistory imageId={image._id} revisions={revisions} />}
+
+      <Comments
+        imageId={image._id}
+        shareToken={shareToken}
+        isImageOwner={isOwner}
+        initialComments={
+          comments ?? { data: [], nextCursor: null, totalComments: 0 }
+        }
+      />
     </>
   );
 };
@@ -28,6 +28,7 @@ const Page = async ({ params: { id } }: SearchParamProps) => {
           userId={user._id}
           type={image.transformationType as TransformationTypeKey}
           creditBalance={user.creditBalance}
+          planId={Number(user.planId)}
           config={image.config}
           data={image}
         />
@@ -0,0 +1,45 @@
+import Link from 'next/link';
+
+import BatchTransformationForm from '@/components/shared/BatchTransformationForm';
+import Header from '@/components/shared/Header';
+import { maxBatchSize, transformationTypes } from '@/constants';
+import { getUserById } from '@/lib/actions/user.actions';
+import { auth } from '@clerk/nextjs';
+import { redirect } from 'next/navigation';
+
+const AddBatchTransformationPage = async ({
+  params: { type },
+}: SearchParamProps) => {
+  const { userId } = auth();
+
+  const transformation = transformationTypes[type];
+
+  if (!userId) redirect('/sign-in');
+
+  const user = await getUserById(userId);
+
+  return (
+    <>
+      <Header
+        title={`${transformation.title} in Batch`}
+        subtitle={`Apply ${transformation.title.toLowerCase()} to up to ${maxBatchSize} images at once`}
+      />
+      <Link
+        href={`/transformations/add/${type}`}
+        className='p-14-medium mt-4 inline-block text-purple-400'
+      >
+        Transform a single image instead
+      </Link>
+      <section className='mt-10'>
+        <BatchTransformationForm
+          userId={user._id}
+          type={transformation.type as TransformationTypeKey}
+          creditBalance={user.creditBalance}
+          planId={Number(user.planId)}
+        />
+      </section>
+    </>
+  );
+};
+
+export default AddBatchTransformationPage;
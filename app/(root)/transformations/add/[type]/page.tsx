@@ -1,12 +1,19 @@
+import Link from 'next/link';
+
 import Header from '@/components/shared/Header';
 import TransformationForm from '@/components/shared/TransformationForm';
 import { transformationTypes } from '@/constants';
+import { getImageById } from '@/lib/actions/image.actions';
+import { getUserPresets } from '@/lib/actions/preset.actions';
 import { getUserById } from '@/lib/actions/user.actions';
+import { IPreset } from '@/lib/database/models/preset.model';
+import { getTransformationSteps } from '@/lib/utils';
 import { auth } from '@clerk/nextjs';
 import { redirect } from 'next/navigation';
 
 const AddTransformationTypePage = async ({
   params: { type },
+  searchParams,
 }: SearchParamProps) => {
   const { userId } = auth();
 
@@ -15,16 +22,79 @@ const AddTransformationTypePage = async ({
   if (!userId) redirect('/sign-in');
 
   const user = await getUserById(userId);
+  const presets: IPreset[] = (await getUserPresets(type)) ?? [];
+  const preset =
+    presets.find((preset) => preset._id === searchParams?.preset) ?? null;
+
+  const shareToken =
+    typeof searchParams?.share === 'string' ? searchParams.share : undefined;
+  const source =
+    typeof searchParams?.remix === 'string'
+      ? await getImageById(searchParams.remix, shareToken)
+      : null;
+
+  // Someone else's upload can only be remixed directly when it is public;
+  // otherwise the remix starts from the user's own upload.
+  const remix: RemixSource | null = source && {
+    _id: source._id,
+    title: source.title,
+    aspectRatio: source.aspectRatio,
+    prompt: source.prompt,
+    color: source.color,
+    config: getTransformationSteps(source).map(
+      ({ type, aspectRatio, prompt, color, config }) => ({
+        type,
+        aspectRatio,
+        prompt,
+        color,
+        config,
+      })
+    ),
+    shareToken,
+    upload:
+      source.author.clerkId === userId || source.visibility === 'public'
+        ? {
+            publicId: source.publicId,
+            width: source.width,
+            height: source.height,
+            secureURL: source.secureURL,
+          }
+        : null,
+  };
 
   return (
     <>
       <Header title={transformation.title} subtitle={transformation.subTitle} />
+      {remix && (
+        <p className='p-14-medium mt-4 text-dark-400'>
+          Remixing{' '}
+          <Link
+            href={`/transformations/${remix._id}${
+              shareToken ? `?share=${shareToken}` : ''
+            }`}
+            className='text-purple-400'
+          >
+            {remix.title}
+          </Link>
+          {!remix.upload && ', starting from your own upload'}
+        </p>
+      )}
+      <Link
+        href={`/transformations/add/${type}/batch`}
+        className='p-14-medium mt-4 inline-block text-purple-400'
+      >
+        Transform several images at once
+      </Link>
       <section className='mt-10'>
         <TransformationForm
           action='Add'
           userId={user._id}
           type={transformation.type as TransformationTypeKey}
           creditBalance={user.creditBalance}
+          planId={Number(user.planId)}
+          presets={presets}
+          preset={preset}
+          remix={remix}
         />
       </section>
     </>
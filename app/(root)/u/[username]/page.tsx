@@ -0,0 +1,90 @@
+import Image from 'next/image';
+
+import { AlbumList } from '@/components/shared/Albums';
+import { Collection } from '@/components/shared/Collection';
+import { getUserAlbums } from '@/lib/actions/album.actions';
+import { getUserImages } from '@/lib/actions/image.actions';
+import { getUserProfile } from '@/lib/actions/user.actions';
+import { getAuthorName } from '@/lib/utils';
+
+const PublicProfile = async ({
+  params,
+  searchParams,
+}: {
+  params: { username: string };
+  searchParams: SearchParamProps['searchParams'];
+}) => {
+  const cursor = (searchParams?.cursor as string) || null;
+
+  // Everyone, the user included, sees only what is listed publicly here.
+  const profile = await getUserProfile(decodeURIComponent(params.username));
+  const images = await getUserImages({
+    cursor,
+    userId: profile._id,
+    listedOnly: true,
+  });
+  const albums = await getUserAlbums(profile._id, true);
+
+  return (
+    <>
+      <section className='public-profile'>
+        {profile.photo && (
+          <Image
+            src={profile.photo}
+            alt={getAuthorName(profile)}
+            width={96}
+            height={96}
+            className='public-profile_avatar'
+          />
+        )}
+        <div className='flex flex-col gap-1 text-center sm:text-left'>
+          <h2 className='h2-bold text-dark-600'>{getAuthorName(profile)}</h2>
+          <p className='p-16-regular text-dark-400'>
+            @{profile.username} · Joined{' '}
+            {new Date(profile.joinedAt).toLocaleDateString(undefined, {
+              month: 'long',
+              year: 'numeric',
+            })}
+          </p>
+        </div>
+      </section>
+
+      <section className='profile'>
+        <div className='profile-balance'>
+          <p className='p-14-medium md:p-16-medium'>PUBLIC IMAGES</p>
+          <div className='mt-4 flex items-center gap-4'>
+            <Image
+              src='/assets/icons/photo.svg'
+              alt='images'
+              width={50}
+              height={50}
+              className='size-9 md:size-12'
+            />
+            <h2 className='h2-bold text-dark-600'>{profile.totalImages}</h2>
+          </div>
+        </div>
+
+        <div className='profile-image-manipulation'>
+          <p className='p-14-medium md:p-16-medium'>LIKES RECEIVED</p>
+          <div className='mt-4 flex items-center gap-4'>
+            <p className='h2-bold text-purple-400'>&#x2665;</p>
+            <h2 className='h2-bold text-dark-600'>{profile.totalLikes}</h2>
+          </div>
+        </div>
+      </section>
+
+      <section className='mt-8 md:mt-14'>
+        <Collection
+          title='Public Images'
+          images={images?.data}
+          nextCursor={images?.nextCursor}
+          prevCursor={images?.prevCursor}
+        />
+      </section>
+
+      <AlbumList albums={albums ?? []} />
+    </>
+  );
+};
+
+export default PublicProfile;
@@ -0,0 +1,37 @@
+import { imageProviderName } from '@/lib/providers/url';
+import { renderLocalAsset } from '@/lib/providers/local';
+
+/**
+ * Serves images stored by the local provider, uploads and derived assets
+ * alike, scaled down to the `width` and `height` query parameters. This
+ * route is public, so it never transforms anything.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { publicId: string[] } }
+) {
+  if (imageProviderName !== 'local') {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const image = await renderLocalAsset({
+      publicId: params.publicId.join('/'),
+      width: Number(searchParams.get('width')) || undefined,
+      height: Number(searchParams.get('height')) || undefined,
+    });
+
+    return new Response(image, {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering image:', error);
+
+    return new Response('Image could not be rendered', { status: 422 });
+  }
+}
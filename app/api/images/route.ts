@@ -0,0 +1,64 @@
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import User from '@/lib/database/models/user.model';
+import { connectToDatabase } from '@/lib/database/mongoose';
+import { getImageProvider } from '@/lib/providers';
+import { recordUpload } from '@/lib/uploads';
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Uploads an image through the configured provider.
+ *
+ * Used by the uploader when the local provider is selected; the Cloudinary
+ * provider uploads straight from the browser through its widget instead.
+ * The signed-in user is recorded as the uploader, see `recordUpload`.
+ */
+export async function POST(request: Request) {
+  const { userId } = auth();
+
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const formData = await request.formData();
+  const file = formData.get('file');
+
+  if (!(file instanceof File) || !file.type.startsWith('image/')) {
+    return NextResponse.json(
+      { message: 'An image file is required' },
+      { status: 400 }
+    );
+  }
+
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return NextResponse.json(
+      { message: 'Image is too large' },
+      { status: 413 }
+    );
+  }
+
+  await connectToDatabase();
+
+  const user = await User.findOne({ clerkId: userId });
+
+  if (!user) {
+    return NextResponse.json({ message: 'User not found' }, { status: 404 });
+  }
+
+  try {
+    const asset = await getImageProvider().upload(
+      Buffer.from(await file.arrayBuffer()),
+      file.name
+    );
+
+    await recordUpload(asset.publicId, user._id.toString());
+
+    return NextResponse.json(asset);
+  } catch (error) {
+    console.error('Error uploading image:', error);
+
+    return NextResponse.json({ message: 'Upload failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import TransformationJob from '@/lib/database/models/transformationJob.model';
+import User from '@/lib/database/models/user.model';
+import { connectToDatabase } from '@/lib/database/mongoose';
+import { requeueStaleJob } from '@/lib/jobs';
+
+/**
+ * Returns the status of one of the signed-in user's transformation jobs.
+ * Polled by TransformationForm until the job succeeds or fails. A job its
+ * worker abandoned is put back in the queue first, see `requeueStaleJob`.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { userId } = auth();
+
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  await connectToDatabase();
+
+  const user = await User.findOne({ clerkId: userId });
+  const job = user
+    ? await TransformationJob.findOne({ _id: params.id, user: user._id }).catch(
+        () => null
+      )
+    : null;
+
+  if (!job) {
+    return NextResponse.json({ message: 'Job not found' }, { status: 404 });
+  }
+
+  await requeueStaleJob(job._id.toString());
+
+  // Requeueing may have failed the job and refunded it.
+  const [currentJob, currentUser] = await Promise.all([
+    TransformationJob.findById(job._id),
+    User.findById(job.user, 'creditBalance'),
+  ]);
+
+  return NextResponse.json({
+    id: currentJob._id,
+    status: currentJob.status,
+    derivedPublicId: currentJob.derivedPublicId,
+    derivedURL: currentJob.derivedURL,
+    error: currentJob.error,
+    refundedCredits: currentJob.refundedCredits,
+    creditBalance: currentUser.creditBalance,
+  });
+}
@@ -0,0 +1,47 @@
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import Transaction from '@/lib/database/models/transaction.model';
+import User from '@/lib/database/models/user.model';
+import { connectToDatabase } from '@/lib/database/mongoose';
+import { getInvoiceNumber, renderInvoice } from '@/lib/invoices';
+
+/**
+ * Downloads the PDF invoice of one of the signed-in user's transactions.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { userId } = auth();
+
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  await connectToDatabase();
+
+  const user = await User.findOne({ clerkId: userId });
+  const transaction = user
+    ? await Transaction.findOne({ _id: params.id, buyer: user._id }).catch(
+        () => null
+      )
+    : null;
+
+  if (!transaction) {
+    return NextResponse.json(
+      { message: 'Transaction not found' },
+      { status: 404 }
+    );
+  }
+
+  return new Response(renderInvoice(transaction, user), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${getInvoiceNumber(
+        transaction
+      )}.pdf"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
@@ -1,42 +1,44 @@
-/* eslint-disable camelcase */
-import { createTransaction } from '@/lib/actions/transaction.actions';
 import { NextResponse } from 'next/server';
 import stripe from 'stripe';
 
+import { processStripeEvent } from '@/lib/stripe-events';
+
 export async function POST(request: Request) {
   const body = await request.text();
 
-  const sig = request.headers.get('stripe-signature') as string;
+  const sig = request.headers.get('stripe-signature');
   const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET!;
 
+  if (!sig) {
+    return NextResponse.json(
+      { message: 'Missing stripe-signature header' },
+      { status: 400 }
+    );
+  }
+
   let event;
 
   try {
     event = stripe.webhooks.constructEvent(body, sig, endpointSecret);
   } catch (err) {
-    return NextResponse.json({ message: 'Webhook error', error: err });
+    return NextResponse.json(
+      { message: 'Webhook error', error: (err as Error).message },
+      { status: 400 }
+    );
   }
 
-  // Get the ID and type
-  const eventType = event.type;
-
-  // CREATE
-  if (eventType === 'checkout.session.completed') {
-    const { id, amount_total, metadata } = event.data.object;
-
-    const transaction = {
-      stripeId: id,
-      amount: amount_total ? amount_total / 100 : 0,
-      plan: metadata?.plan || '',
-      credits: Number(metadata?.credits) || 0,
-      buyerId: metadata?.buyerId || '',
-      createdAt: new Date(),
-    };
-
-    const newTransaction = await createTransaction(transaction);
-
-    return NextResponse.json({ message: 'OK', transaction: newTransaction });
+  try {
+    const processed = await processStripeEvent(event);
+
+    return NextResponse.json({ message: 'OK', processed });
+  } catch (error) {
+    console.error(error);
+
+    // Stripe delivers the event again later; it is stored meanwhile, and
+    // can also be replayed with `npm run stripe:replay`.
+    return NextResponse.json(
+      { message: 'Webhook processing failed' },
+      { status: 500 }
+    );
   }
-
-  return new Response('', { status: 200 });
 }
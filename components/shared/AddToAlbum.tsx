@@ -0,0 +1,150 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { addImageToAlbum, createAlbum } from '@/lib/actions/album.actions';
+import { IAlbum } from '@/lib/database/models/album.model';
+
+import { Input } from '../ui/input';
+
+// Select items cannot have an empty value, so this one opens the new album
+// dialog instead of naming an album.
+const NEW_ALBUM = 'new';
+
+/**
+ * Adds an image to one of the signed-in user's albums, or to a new one.
+ */
+export const AddToAlbum = ({
+  imageId,
+  albums,
+}: {
+  imageId: string;
+  albums: IAlbum[];
+}) => {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [isCreating, setIsCreating] = useState(false);
+  const [title, setTitle] = useState('');
+
+  const addToAlbum = async (albumId: string, albumTitle: string) => {
+    try {
+      await addImageToAlbum({ albumId, imageId, path: '/profile' });
+
+      router.refresh();
+      toast({
+        title: 'Added to album',
+        description: `The image is now in ${albumTitle}`,
+        duration: 5000,
+        className: 'success-toast',
+      });
+    } catch (error) {
+      toast({
+        title: 'Could not add the image',
+        description: (error as Error).message,
+        duration: 5000,
+        className: 'error-toast',
+      });
+    }
+  };
+
+  const onCreateHandler = () =>
+    startTransition(async () => {
+      try {
+        const album = await createAlbum({
+          album: { title: title.trim() },
+          path: '/profile',
+        });
+
+        setTitle('');
+        if (album) await addToAlbum(album._id, album.title);
+      } catch (error) {
+        console.log(error);
+      }
+    });
+
+  const onValueChangeHandler = (value: string) => {
+    if (value === NEW_ALBUM) return setIsCreating(true);
+
+    const album = albums.find((album) => album._id === value);
+
+    if (album) startTransition(() => addToAlbum(album._id, album.title));
+  };
+
+  return (
+    <>
+      <Select
+        value=''
+        disabled={isPending}
+        onValueChange={onValueChangeHandler}
+      >
+        <SelectTrigger className='select-field'>
+          <SelectValue placeholder={isPending ? 'Adding...' : 'Add to album'} />
+        </SelectTrigger>
+        <SelectContent>
+          {albums.map((album) => (
+            <SelectItem
+              key={album._id}
+              value={album._id}
+              className='select-item'
+            >
+              {album.title}
+            </SelectItem>
+          ))}
+          <SelectItem value={NEW_ALBUM} className='select-item'>
+            New album...
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      <AlertDialog open={isCreating} onOpenChange={setIsCreating}>
+        <AlertDialogContent className='flex flex-col gap-10'>
+          <AlertDialogHeader>
+            <AlertDialogTitle>New album</AlertDialogTitle>
+            <AlertDialogDescription className='p-16-regular'>
+              The image is added to the new album right away
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <Input
+            value={title}
+            placeholder='Album title'
+            className='input-field'
+            maxLength={80}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className='bg-purple-gradient bg-cover'
+              disabled={!title.trim()}
+              onClick={onCreateHandler}
+            >
+              Create Album
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
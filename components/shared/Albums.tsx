@@ -0,0 +1,312 @@
+'use client';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { visibilityOptions } from '@/constants';
+import {
+  createAlbum,
+  deleteAlbum,
+  moveAlbumImage,
+  removeImageFromAlbum,
+  setAlbumCover,
+} from '@/lib/actions/album.actions';
+import { IAlbum } from '@/lib/database/models/album.model';
+import { IImage } from '@/lib/database/models/image.model';
+
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import ProviderImage from './ProviderImage';
+
+/**
+ * Lists a user's albums, and lets the owner create new ones.
+ */
+export const AlbumList = ({
+  albums,
+  isOwner = false,
+}: {
+  albums: (IAlbum & { imageCount: number; cover: IImage | null })[];
+  isOwner?: boolean;
+}) => {
+  const router = useRouter();
+  const [title, setTitle] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  const onCreateHandler = () =>
+    startTransition(async () => {
+      try {
+        const album = await createAlbum({
+          album: { title: title.trim() },
+          path: '/profile',
+        });
+
+        setTitle('');
+        if (album) router.push(`/albums/${album._id}`);
+      } catch (error) {
+        console.log(error);
+      }
+    });
+
+  return (
+    <section className='mt-10 border-t border-dark-400/15 pt-8'>
+      <h3 className='h3-bold mb-6 text-dark-600'>Albums</h3>
+
+      {isOwner && (
+        <div className='mb-6 flex gap-2'>
+          <Input
+            value={title}
+            placeholder='Album title'
+            className='input-field'
+            maxLength={80}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+          <Button
+            type='button'
+            className='history-btn h-[54px]'
+            disabled={isPending || !title.trim()}
+            onClick={onCreateHandler}
+          >
+            {isPending ? 'Creating...' : 'New Album'}
+          </Button>
+        </div>
+      )}
+
+      {albums.length > 0 ? (
+        <ul className='collection-list'>
+          {albums.map((album) => (
+            <li key={album._id}>
+              <Link href={`/albums/${album._id}`} className='collection-card'>
+                {album.cover ? (
+                  <ProviderImage
+                    src={album.cover.derivedPublicId || album.cover.publicId}
+                    alt={album.title}
+                    width={album.cover.width}
+                    height={album.cover.height}
+                    config={
+                      album.cover.derivedPublicId ? null : album.cover.config
+                    }
+                    loading='lazy'
+                    className='h-52 w-full rounded-[10px] object-cover'
+                    sizes='(max-width: 767px) 100vw, (max-width: 1279px) 50vw, 33vw'
+                  />
+                ) : (
+                  <div className='album-cover_empty'>
+                    <Image
+                      src='/assets/icons/photo.svg'
+                      alt='empty album'
+                      width={50}
+                      height={50}
+                    />
+                  </div>
+                )}
+                <div className='flex-between'>
+                  <p className='p-20-semibold mr-3 line-clamp-1 text-dark-600'>
+                    {album.title}
+                  </p>
+                  <p className='p-14-medium whitespace-nowrap text-dark-400'>
+                    {album.imageCount}{' '}
+                    {album.imageCount === 1 ? 'image' : 'images'}
+                    {isOwner &&
+                      ` · ${visibilityOptions[album.visibility ?? 'public'].label}`}
+                  </p>
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className='collection-empty'>
+          <p className='p-20-semibold'>No albums yet</p>
+        </div>
+      )}
+    </section>
+  );
+};
+
+/**
+ * Lets the author reorder an album, pick its cover and take images out of it.
+ */
+export const AlbumManager = ({
+  albumId,
+  images,
+  coverId,
+}: {
+  albumId: string;
+  images: IImage[];
+  coverId?: string;
+}) => {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+
+  const path = `/albums/${albumId}`;
+
+  /**
+   * Runs one album change and reloads the page data.
+   */
+  const onChangeHandler = (change: () => Promise<unknown>) =>
+    startTransition(async () => {
+      try {
+        await change();
+
+        router.refresh();
+      } catch (error) {
+        toast({
+          title: 'Could not update the album',
+          description: (error as Error).message,
+          duration: 5000,
+          className: 'error-toast',
+        });
+      }
+    });
+
+  return (
+    <section className='mt-10 border-t border-dark-400/15 pt-8'>
+      <h3 className='h3-bold mb-6 text-dark-600'>Arrange</h3>
+
+      <ul className='history-list'>
+        {images.map((image, index) => (
+          <li key={image._id} className='history-item'>
+            <ProviderImage
+              src={image.derivedPublicId || image.publicId}
+              alt={image.title}
+              width={80}
+              height={80}
+              config={image.derivedPublicId ? null : image.config}
+              className='size-20 rounded-[10px] object-cover'
+            />
+
+            <div className='flex flex-1 flex-col gap-1'>
+              <p className='p-16-semibold line-clamp-1 text-dark-600'>
+                {image.title}
+              </p>
+              {image._id === coverId && (
+                <p className='p-14-medium text-purple-400'>Cover</p>
+              )}
+            </div>
+
+            <div className='flex flex-col gap-2 sm:flex-row'>
+              <Button
+                type='button'
+                className='history-btn'
+                aria-label='Move up'
+                disabled={isPending || index === 0}
+                onClick={() =>
+                  onChangeHandler(() =>
+                    moveAlbumImage({
+                      albumId,
+                      imageId: image._id,
+                      direction: -1,
+                      path,
+                    })
+                  )
+                }
+              >
+                &#x2191;
+              </Button>
+              <Button
+                type='button'
+                className='history-btn'
+                aria-label='Move down'
+                disabled={isPending || index === images.length - 1}
+                onClick={() =>
+                  onChangeHandler(() =>
+                    moveAlbumImage({
+                      albumId,
+                      imageId: image._id,
+                      direction: 1,
+                      path,
+                    })
+                  )
+                }
+              >
+                &#x2193;
+              </Button>
+              <Button
+                type='button'
+                className='history-btn'
+                disabled={isPending || image._id === coverId}
+                onClick={() =>
+                  onChangeHandler(() =>
+                    setAlbumCover({ albumId, imageId: image._id, path })
+                  )
+                }
+              >
+                Make Cover
+              </Button>
+              <Button
+                type='button'
+                className='history-btn'
+                disabled={isPending}
+                onClick={() =>
+                  onChangeHandler(() =>
+                    removeImageFromAlbum({ albumId, imageId: image._id, path })
+                  )
+                }
+              >
+                Remove
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export const DeleteAlbumConfirmation = ({ albumId }: { albumId: string }) => {
+  const [isPending, startTransition] = useTransition();
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild className='w-full rounded-full'>
+        <Button
+          type='button'
+          className='button h-[44px] w-full md:h-[54px]'
+          variant='destructive'
+        >
+          Delete Album
+        </Button>
+      </AlertDialogTrigger>
+
+      <AlertDialogContent className='flex flex-col gap-10'>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            Are you sure you want to delete this album?
+          </AlertDialogTitle>
+          <AlertDialogDescription className='p-16-regular'>
+            This will permanently delete this album. Its images are kept
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className='border bg-red-500 text-white hover:bg-red-600'
+            onClick={() =>
+              startTransition(async () => {
+                await deleteAlbum(albumId);
+              })
+            }
+          >
+            {isPending ? 'Deleting...' : 'Delete'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
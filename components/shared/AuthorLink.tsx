@@ -0,0 +1,35 @@
+import Image from 'next/image';
+import Link from 'next/link';
+
+import { cn, getAuthorName } from '@/lib/utils';
+
+/**
+ * Shows a user's avatar and name, linking to their public profile.
+ */
+export const AuthorLink = ({
+  author,
+  size = 24,
+  className,
+}: {
+  author: {
+    username?: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    photo?: string;
+  };
+  size?: number;
+  className?: string;
+}) => (
+  <Link href={`/u/${author.username}`} className={cn('author-link', className)}>
+    {author.photo && (
+      <Image
+        src={author.photo}
+        alt={getAuthorName(author)}
+        width={size}
+        height={size}
+        className='author-link_avatar'
+      />
+    )}
+    <span className='line-clamp-1'>{getAuthorName(author)}</span>
+  </Link>
+);
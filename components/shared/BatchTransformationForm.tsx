@@ -0,0 +1,495 @@
+'use client';
+
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { CldUploadWidget } from 'next-cloudinary';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRef, useState } from 'react';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Form } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  aspectRatioOptions,
+  defaultValues,
+  maxBatchSize,
+  transformationTypes,
+} from '@/constants';
+import {
+  addImage,
+  applyBatchTransformation,
+  claimUpload,
+} from '@/lib/actions/image.actions';
+import { imageProviderName } from '@/lib/providers/url';
+import {
+  AspectRatioKey,
+  buildStepConfig,
+  getTransformationCost,
+  pollTransformationJob,
+  uploadLocalImage,
+} from '@/lib/utils';
+import { CustomField } from './CustomField';
+import { InsufficientCreditsModal } from './InsufficientCreditsModal';
+import ProviderImage from './ProviderImage';
+import { formSchema } from './TransformationForm';
+
+// 'unsaved' items were paid for, but their job is still running or their
+// image could not be saved. They keep their job, so trying again only saves
+// them.
+type BatchItem = UploadedAsset & {
+  status: 'uploaded' | 'transforming' | 'saved' | 'unsaved' | 'failed';
+  jobId?: string;
+  derivedPublicId?: string;
+  imageId?: string;
+};
+
+const statusLabels: Record<BatchItem['status'], string> = {
+  uploaded: 'Ready',
+  transforming: 'Transforming...',
+  saved: 'Saved',
+  unsaved: 'Not saved',
+  failed: 'Failed',
+};
+
+type BatchTransformationFormProps = {
+  userId: string;
+  type: TransformationTypeKey;
+  creditBalance: number;
+  planId: number;
+};
+
+/**
+ * Applies one transformation to up to `maxBatchSize` uploads at once and
+ * saves one image per upload. The whole batch is paid for up front.
+ */
+const BatchTransformationForm = ({
+  userId,
+  type,
+  creditBalance,
+  planId,
+}: BatchTransformationFormProps) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [availableCredits, setAvailableCredits] = useState(creditBalance);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues,
+  });
+
+  const aspectRatio = form.watch('aspectRatio');
+
+  // Saved uploads are done; failed ones were refunded and can run again.
+  // Unsaved ones are already paid for.
+  const pendingItems = items.filter((item) => item.status !== 'saved');
+  const batchCost = pendingItems
+    .filter((item) => !item.jobId)
+    .reduce(
+      (sum, item) =>
+        sum + getTransformationCost(type, { ...item, aspectRatio }, planId),
+      0
+    );
+
+  const updateItem = (publicId: string, changes: Partial<BatchItem>) => {
+    setItems((prevItems) =>
+      prevItems.map((item) =>
+        item.publicId === publicId ? { ...item, ...changes } : item
+      )
+    );
+  };
+
+  const onUploadSuccessHandler = (asset: UploadedAsset) => {
+    setItems((prevItems) =>
+      prevItems.length < maxBatchSize
+        ? [...prevItems, { ...asset, status: 'uploaded' }]
+        : prevItems
+    );
+  };
+
+  const onUploadErrorHandler = () => {
+    toast({
+      title: 'Somthing went wrong while uploading',
+      description: 'Please try again later',
+      duration: 5000,
+      className: 'error-toast',
+    });
+  };
+
+  /**
+   * Uploads the picked files one by one through the local provider's upload
+   * route, up to the room left in the batch.
+   */
+  const onLocalFilesChangeHandler = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const files = Array.from(e.target.files ?? []).slice(
+      0,
+      maxBatchSize - items.length
+    );
+
+    e.target.value = '';
+
+    for (const file of files) {
+      try {
+        onUploadSuccessHandler(await uploadLocalImage(file));
+      } catch (error) {
+        console.log(error);
+        onUploadErrorHandler();
+      }
+    }
+  };
+
+  const onRemoveItemHandler = (publicId: string) => {
+    setItems((prevItems) =>
+      prevItems.filter((item) => item.publicId !== publicId)
+    );
+  };
+
+  /**
+   * Waits for an upload's job and saves its image. Returns the upload's new
+   * status.
+   */
+  const saveItem = async (
+    item: BatchItem,
+    jobId: string,
+    values: z.infer<typeof formSchema>
+  ): Promise<BatchItem['status']> => {
+    updateItem(item.publicId, { status: 'transforming', jobId });
+
+    try {
+      const job = await pollTransformationJob(jobId);
+
+      setAvailableCredits(job.creditBalance);
+
+      // A job that only timed out here was not refunded, so it is kept.
+      if (job.status === 'failed' && job.refundedCredits !== undefined) {
+        updateItem(item.publicId, { status: 'failed', jobId: undefined });
+        return 'failed';
+      }
+
+      if (job.status === 'failed') {
+        updateItem(item.publicId, { status: 'unsaved' });
+        return 'unsaved';
+      }
+
+      const newImage = await addImage({
+        image: {
+          title: `${values.title || transformationTypes[type].title} ${
+            items.indexOf(item) + 1
+          }`,
+          publicId: item.publicId,
+          transformationType: type,
+          width: item.width,
+          height: item.height,
+          secureURL: item.secureURL,
+          aspectRatio: values.aspectRatio,
+          prompt: values.prompt,
+          color: values.color,
+          jobIds: [jobId],
+        },
+        userId,
+        path: '/',
+      });
+
+      updateItem(item.publicId, {
+        status: 'saved',
+        derivedPublicId: job.derivedPublicId,
+        imageId: newImage?._id,
+      });
+
+      return 'saved';
+    } catch (error) {
+      console.log(error);
+      updateItem(item.publicId, { status: 'unsaved' });
+      return 'unsaved';
+    }
+  };
+
+  /**
+   * Charges the uploads that still need a transformation in one go, then
+   * polls every job and saves an image for each upload whose transformation
+   * succeeded. Unsaved uploads are saved again without a new charge.
+   */
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsRunning(true);
+
+    const unsavedItems = pendingItems.filter((item) => item.jobId);
+    const newItems = pendingItems.filter((item) => !item.jobId);
+
+    try {
+      const result =
+        newItems.length > 0
+          ? await applyBatchTransformation({
+              type,
+              config: buildStepConfig({
+                type,
+                prompt: values.prompt,
+                color: values.color,
+              }),
+              publicIds: newItems.map((item) => item.publicId),
+              aspectRatio: values.aspectRatio || undefined,
+            })
+          : null;
+
+      if (newItems.length > 0 && !result) return;
+
+      if (result) setAvailableCredits(result.creditBalance);
+
+      const runs = [
+        ...unsavedItems.map((item) => ({ item, jobId: item.jobId! })),
+        ...(result?.items ?? []).map(({ publicId, jobId }) => ({
+          item: items.find((item) => item.publicId === publicId)!,
+          jobId,
+        })),
+      ];
+
+      const outcomes = await Promise.all(
+        runs.map(({ item, jobId }) => saveItem(item, jobId, values))
+      );
+
+      const saved = outcomes.filter((status) => status === 'saved').length;
+      const notes = [
+        outcomes.includes('failed') &&
+          'Failed transformations were refunded and can be run again.',
+        outcomes.includes('unsaved') &&
+          'Images that were not saved are already paid for. Try again to save them at no charge.',
+      ].filter(Boolean);
+
+      toast({
+        title: `${saved} of ${outcomes.length} images saved`,
+        description:
+          saved === outcomes.length
+            ? 'Every image in the batch was transformed'
+            : notes.join(' '),
+        duration: 5000,
+        className: saved === outcomes.length ? 'success-toast' : 'error-toast',
+      });
+    } catch (error) {
+      console.log(error);
+      toast({
+        title: 'Batch transformation failed',
+        description: 'Nothing was charged. Please try again',
+        duration: 5000,
+        className: 'error-toast',
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  }
+
+  const renderUploader = (open: () => void) => (
+    <div
+      className='media-uploader_cta h-40'
+      onClick={() => !isRunning && items.length < maxBatchSize && open()}
+    >
+      <div className='media-uploader_cta-image'>
+        <Image
+          src='/assets/icons/add.svg'
+          alt='Add images'
+          width={24}
+          height={24}
+        />
+      </div>
+      <p className='p-14-medium'>
+        Click here to upload images ({items.length}/{maxBatchSize})
+      </p>
+    </div>
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className='space-y-8'>
+        {pendingItems.length > 0 && availableCredits < batchCost && (
+          <InsufficientCreditsModal
+            cost={batchCost}
+            creditBalance={availableCredits}
+          />
+        )}
+
+        <CustomField
+          control={form.control}
+          name='title'
+          formLabel='Image Title'
+          className='w-full'
+          render={({ field }) => <Input {...field} />}
+        />
+
+        {/* generative fill */}
+        {type === 'fill' && (
+          <CustomField
+            control={form.control}
+            name='aspectRatio'
+            formLabel='Aspect Ratio'
+            className='w-full'
+            render={({ field }) => (
+              <Select onValueChange={field.onChange} value={field.value}>
+                <SelectTrigger className='select-field'>
+                  <SelectValue placeholder='Select size' />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(aspectRatioOptions).map((key) => (
+                    <SelectItem key={key} value={key} className='select-item'>
+                      {aspectRatioOptions[key as AspectRatioKey].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+        )}
+
+        {/* object remove/recolor */}
+        {(type === 'remove' || type === 'recolor') && (
+          <div className='prompt-field'>
+            <CustomField
+              control={form.control}
+              name='prompt'
+              formLabel={
+                type === 'remove' ? 'Object to Remove' : 'Color to Recolor'
+              }
+              className='w-full'
+              render={({ field }) => (
+                <Input {...field} className='input-field' />
+              )}
+            />
+
+            {type === 'recolor' && (
+              <CustomField
+                control={form.control}
+                name='color'
+                formLabel='Replacement Color'
+                className='w-full'
+                render={({ field }) => (
+                  <Input {...field} className='input-field' />
+                )}
+              />
+            )}
+          </div>
+        )}
+
+        {/* image uploader */}
+        {imageProviderName === 'local' ? (
+          <>
+            <input
+              ref={fileInputRef}
+              type='file'
+              accept='image/*'
+              multiple
+              className='hidden'
+              onChange={onLocalFilesChangeHandler}
+            />
+            {renderUploader(() => fileInputRef.current?.click())}
+          </>
+        ) : (
+          <CldUploadWidget
+            uploadPreset='appu_imaginify'
+            options={{
+              multiple: true,
+              maxFiles: maxBatchSize - items.length,
+              resourceType: 'image',
+            }}
+            onSuccess={async (result: any) => {
+              // Widget uploads skip the server, so the upload is recorded
+              // as the user's before it can be transformed.
+              try {
+                await claimUpload(result?.info?.public_id);
+              } catch (error) {
+                console.log(error);
+                return onUploadErrorHandler();
+              }
+
+              onUploadSuccessHandler({
+                publicId: result?.info?.public_id,
+                width: result?.info?.width,
+                height: result?.info?.height,
+                secureURL: result?.info?.secure_url,
+              });
+            }}
+            onError={onUploadErrorHandler}
+          >
+            {({ open }) => renderUploader(open)}
+          </CldUploadWidget>
+        )}
+
+        {/* progress grid */}
+        {items.length > 0 && (
+          <ul className='batch-grid'>
+            {items.map((item) => (
+              <li key={item.publicId} className='batch-item'>
+                <ProviderImage
+                  src={item.derivedPublicId || item.publicId}
+                  alt='Batch image'
+                  width={240}
+                  height={240}
+                  className='batch-item_image'
+                />
+
+                <div className='flex-between'>
+                  {item.status === 'saved' && item.imageId ? (
+                    <Link
+                      href={`/transformations/${item.imageId}`}
+                      className='p-14-medium text-purple-400'
+                    >
+                      {statusLabels[item.status]}
+                    </Link>
+                  ) : (
+                    <p
+                      className={`p-14-medium ${
+                        item.status === 'failed'
+                          ? 'text-red-500'
+                          : 'text-dark-400'
+                      }`}
+                    >
+                      {statusLabels[item.status]}
+                    </p>
+                  )}
+
+                  {!isRunning && item.status !== 'saved' && (
+                    <button
+                      type='button'
+                      onClick={() => onRemoveItemHandler(item.publicId)}
+                    >
+                      <Image
+                        src='/assets/icons/close.svg'
+                        alt='Remove image'
+                        width={20}
+                        height={20}
+                      />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Button
+          type='submit'
+          className='submit-button capitalize'
+          disabled={isRunning || pendingItems.length === 0}
+        >
+          {isRunning
+            ? 'Transforming...'
+            : `Transform ${pendingItems.length} ${
+                pendingItems.length === 1 ? 'image' : 'images'
+              } (${batchCost} ${batchCost === 1 ? 'credit' : 'credits'})`}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default BatchTransformationForm;
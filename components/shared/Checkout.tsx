@@ -10,14 +10,10 @@ import { Button } from '../ui/button';
 
 const Checkout = ({
   plan,
-  amount,
-  credits,
-  buyerId,
+  promoCode,
 }: {
   plan: string;
-  amount: number;
-  credits: number;
-  buyerId: string;
+  promoCode?: string;
 }) => {
   const { toast } = useToast();
 
@@ -50,9 +46,7 @@ const Checkout = ({
   const onCheckout = async () => {
     const transaction = {
       plan,
-      amount,
-      credits,
-      buyerId,
+      promoCode,
     };
 
     await checkoutCredits(transaction);
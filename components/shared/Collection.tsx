@@ -3,7 +3,7 @@
 import Image from 'next/image';
 import Link from 'next/link';
 import { useSearchParams, useRouter } from 'next/navigation';
-import { CldImage } from 'next-cloudinary';
+import { useEffect, useRef, useState } from 'react';
 
 import {
   Pagination,
@@ -12,35 +12,94 @@ import {
   PaginationPrevious,
 } from '@/components/ui/pagination';
 import { transformationTypes } from '@/constants';
+import { IAlbum } from '@/lib/database/models/album.model';
 import { IImage } from '@/lib/database/models/image.model';
 import { formUrlQuery } from '@/lib/utils';
 
 import { Button } from '../ui/button';
 
+import { AddToAlbum } from './AddToAlbum';
+import { AuthorLink } from './AuthorLink';
+import { CollectionFilters } from './CollectionFilters';
+import { LikeButton } from './LikeButton';
+import ProviderImage from './ProviderImage';
 import { Search } from './Search';
 
 export const Collection = ({
+  title = 'Recent Edits',
   hasSearch = false,
   images,
-  totalPages = 1,
-  page,
+  nextCursor = null,
+  prevCursor = null,
+  totalImages,
+  isTotalApproximate = false,
+  facets,
+  albums,
+  loadMore,
 }: {
+  title?: string;
   images: IImage[];
-  totalPages?: number;
-  page: number;
+  nextCursor?: string | null;
+  prevCursor?: string | null;
+  totalImages?: number;
+  isTotalApproximate?: boolean;
   hasSearch?: boolean;
+  facets?: ImageFacets;
+  // Given, each card gets an "Add to album" picker for these albums.
+  albums?: IAlbum[];
+  // Given, the list loads the next page on scroll instead of paginating.
+  loadMore?: (
+    cursor: string
+  ) => Promise<{ data: IImage[]; nextCursor: string | null } | undefined>;
 }) => {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const [items, setItems] = useState(images);
+  const [cursor, setCursor] = useState(nextCursor);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
-  // PAGINATION HANDLER
-  const onPageChange = (action: string) => {
-    const pageValue = action === 'next' ? Number(page) + 1 : Number(page) - 1;
+  // A new search or filter starts the list over.
+  useEffect(() => {
+    setItems(images);
+    setCursor(nextCursor);
+  }, [images, nextCursor]);
+
+  // INFINITE SCROLL
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+
+    if (!loadMore || !cursor || !sentinel) return;
+
+    let isLoading = false;
+
+    const observer = new IntersectionObserver(async ([entry]) => {
+      if (!entry.isIntersecting || isLoading) return;
+
+      isLoading = true;
 
+      try {
+        const result = await loadMore(cursor);
+
+        if (result) {
+          setItems((prevItems) => [...prevItems, ...result.data]);
+          setCursor(result.nextCursor);
+        }
+      } catch (error) {
+        console.log(error);
+      }
+    });
+
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [loadMore, cursor]);
+
+  // PAGINATION HANDLER
+  const onPageChange = (pageCursor: string) => {
     const newUrl = formUrlQuery({
       searchParams: searchParams.toString(),
-      key: 'page',
-      value: pageValue,
+      key: 'cursor',
+      value: pageCursor,
     });
 
     router.push(newUrl, { scroll: false });
@@ -49,14 +108,25 @@ export const Collection = ({
   return (
     <>
       <div className='collection-heading'>
-        <h2 className='h2-bold text-dark-600'>Recent Edits</h2>
+        <div className='flex flex-col gap-1'>
+          <h2 className='h2-bold text-dark-600'>{title}</h2>
+          {totalImages !== undefined && (
+            <p className='p-14-medium text-dark-400'>
+              {totalImages}
+              {isTotalApproximate && '+'}{' '}
+              {totalImages === 1 ? 'image' : 'images'}
+            </p>
+          )}
+        </div>
         {hasSearch && <Search />}
       </div>
 
-      {images.length > 0 ? (
+      {facets && <CollectionFilters facets={facets} />}
+
+      {items.length > 0 ? (
         <ul className='collection-list'>
-          {images.map((image) => (
-            <Card image={image} key={image._id} />
+          {items.map((image) => (
+            <Card image={image} albums={albums} key={image._id} />
           ))}
         </ul>
       ) : (
@@ -65,25 +135,34 @@ export const Collection = ({
         </div>
       )}
 
-      {totalPages > 1 && (
+      {loadMore && cursor && (
+        <div ref={sentinelRef} className='flex-center mt-10'>
+          <Image
+            src='/assets/icons/spinner.svg'
+            width={40}
+            height={40}
+            alt='Loading more images'
+          />
+        </div>
+      )}
+
+      {!loadMore && (nextCursor || prevCursor) && (
         <Pagination className='mt-10'>
           <PaginationContent className='flex w-full'>
             <Button
-              disabled={Number(page) <= 1}
+              disabled={!prevCursor}
               className='collection-btn'
-              onClick={() => onPageChange('prev')}
+              onClick={() => prevCursor && onPageChange(prevCursor)}
             >
               <PaginationPrevious className='hover:bg-transparent hover:text-white' />
             </Button>
 
-            <p className='flex-center p-16-medium w-fit flex-1'>
-              {page} / {totalPages}
-            </p>
+            <div className='flex-1' />
 
             <Button
               className='button w-32 bg-purple-gradient bg-cover text-white'
-              onClick={() => onPageChange('next')}
-              disabled={Number(page) >= totalPages}
+              onClick={() => nextCursor && onPageChange(nextCursor)}
+              disabled={!nextCursor}
             >
               <PaginationNext className='hover:bg-transparent hover:text-white' />
             </Button>
@@ -94,16 +173,16 @@ export const Collection = ({
   );
 };
 
-const Card = ({ image }: { image: IImage }) => {
+const Card = ({ image, albums }: { image: IImage; albums?: IAlbum[] }) => {
   return (
-    <li>
+    <li className='flex flex-col gap-2'>
       <Link href={`/transformations/${image._id}`} className='collection-card'>
-        <CldImage
-          src={image.publicId}
+        <ProviderImage
+          src={image.derivedPublicId || image.publicId}
           alt={image.title}
           width={image.width}
           height={image.height}
-          {...image.config}
+          config={image.derivedPublicId ? null : image.config}
           loading='lazy'
           className='h-52 w-full rounded-[10px] object-cover'
           sizes='(max-width: 767px) 100vw, (max-width: 1279px) 50vw, 33vw'
@@ -124,6 +203,20 @@ const Card = ({ image }: { image: IImage }) => {
           />
         </div>
       </Link>
+      <div className='flex-between gap-2'>
+        {/* Lists that do not populate the author just leave it out. */}
+        {image.author?.username ? (
+          <AuthorLink author={image.author} />
+        ) : (
+          <span />
+        )}
+        <LikeButton
+          imageId={image._id}
+          isLiked={image.isLiked}
+          likeCount={image.likeCount}
+        />
+      </div>
+      {albums && <AddToAlbum imageId={image._id} albums={albums} />}
     </li>
   );
 };
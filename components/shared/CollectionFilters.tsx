@@ -0,0 +1,165 @@
+'use client';
+
+import { useRouter, useSearchParams } from 'next/navigation';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import {
+  aspectRatioOptions,
+  imageFilterKeys,
+  imageSortOptions,
+  transformationTypes,
+} from '@/constants';
+import { AspectRatioKey, formUrlQuery, removeKeysFromQuery } from '@/lib/utils';
+
+import { Button } from '../ui/button';
+
+// Select items cannot have an empty value, so "any" stands for no filter.
+const ANY = 'any';
+
+export const CollectionFilters = ({ facets }: { facets: ImageFacets }) => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const hasFilters = imageFilterKeys.some((key) => searchParams.has(key));
+
+  /**
+   * Sets or clears one filter in the URL, going back to the first page.
+   */
+  const onFilterChange = (key: string, value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete('cursor');
+
+    const newUrl =
+      value && value !== ANY
+        ? formUrlQuery({ searchParams: params.toString(), key, value })
+        : removeKeysFromQuery({
+            searchParams: params.toString(),
+            keysToRemove: [key],
+          });
+
+    router.push(newUrl, { scroll: false });
+  };
+
+  const onClearFilters = () => {
+    const newUrl = removeKeysFromQuery({
+      searchParams: searchParams.toString(),
+      keysToRemove: [...imageFilterKeys, 'cursor'],
+    });
+
+    router.push(newUrl, { scroll: false });
+  };
+
+  const renderFacet = (
+    key: string,
+    placeholder: string,
+    options: { value: string; label: string; count?: number }[]
+  ) => (
+    <Select
+      value={searchParams.get(key) ?? ANY}
+      onValueChange={(value) => onFilterChange(key, value)}
+    >
+      <SelectTrigger className='select-field'>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY} className='select-item'>
+          {placeholder}
+        </SelectItem>
+        {options.map((option) => (
+          <SelectItem
+            key={option.value}
+            value={option.value}
+            className='select-item'
+          >
+            {option.label}
+            {option.count !== undefined && ` (${option.count})`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className='collection-filters'>
+      {renderFacet(
+        'type',
+        'Any transformation',
+        facets.types.map((facet) => ({
+          ...facet,
+          label:
+            transformationTypes[facet.value as TransformationTypeKey]?.title ??
+            facet.value,
+        }))
+      )}
+
+      {renderFacet(
+        'aspectRatio',
+        'Any aspect ratio',
+        facets.aspectRatios.map((facet) => ({
+          ...facet,
+          label:
+            aspectRatioOptions[facet.value as AspectRatioKey]?.label ??
+            facet.value,
+        }))
+      )}
+
+      {renderFacet(
+        'author',
+        'Any author',
+        facets.authors.map((facet) => ({
+          ...facet,
+          label: facet.label || 'Unknown author',
+        }))
+      )}
+
+      {facets.tags.length > 0 &&
+        renderFacet(
+          'tag',
+          'Any tag',
+          facets.tags.map((facet) => ({ ...facet, label: `#${facet.value}` }))
+        )}
+
+      <Input
+        type='date'
+        aria-label='Edited from'
+        className='input-field'
+        value={searchParams.get('from') ?? ''}
+        onChange={(e) => onFilterChange('from', e.target.value)}
+      />
+
+      <Input
+        type='date'
+        aria-label='Edited to'
+        className='input-field'
+        value={searchParams.get('to') ?? ''}
+        onChange={(e) => onFilterChange('to', e.target.value)}
+      />
+
+      {/* without a search, no sort means newest first */}
+      {renderFacet(
+        'sort',
+        searchParams.get('query') ? 'Most relevant' : 'Newest',
+        Object.entries(imageSortOptions)
+          .filter(([value]) => value !== 'newest' || searchParams.has('query'))
+          .map(([value, option]) => ({ value, label: option.label }))
+      )}
+
+      {hasFilters && (
+        <Button
+          type='button'
+          className='history-btn h-[54px]'
+          onClick={onClearFilters}
+        >
+          Clear Filters
+        </Button>
+      )}
+    </div>
+  );
+};
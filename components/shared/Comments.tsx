@@ -0,0 +1,376 @@
+'use client';
+
+import { useAuth } from '@clerk/nextjs';
+import Link from 'next/link';
+import { useState, useTransition } from 'react';
+
+import { useToast } from '@/components/ui/use-toast';
+import {
+  addComment,
+  deleteComment,
+  getImageComments,
+  updateComment,
+} from '@/lib/actions/comment.actions';
+import { IComment } from '@/lib/database/models/comment.model';
+import { splitMentions } from '@/lib/utils';
+
+import { Button } from '../ui/button';
+
+import { AuthorLink } from './AuthorLink';
+
+// Replies deeper than this are no longer indented further.
+const MAX_INDENT_DEPTH = 3;
+
+const CommentForm = ({
+  initialBody = '',
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initialBody?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) => {
+  const [body, setBody] = useState(initialBody);
+  const [isPending, startTransition] = useTransition();
+
+  const onSubmitHandler = () =>
+    startTransition(async () => {
+      if (await onSubmit(body)) setBody('');
+    });
+
+  return (
+    <div className='flex flex-col gap-2'>
+      <textarea
+        value={body}
+        placeholder={placeholder}
+        className='comment-input'
+        maxLength={2000}
+        rows={3}
+        onChange={(e) => setBody(e.target.value)}
+      />
+      <div className='flex gap-2'>
+        <Button
+          type='button'
+          className='history-btn'
+          disabled={isPending || !body.trim()}
+          onClick={onSubmitHandler}
+        >
+          {isPending ? 'Saving...' : submitLabel}
+        </Button>
+        {onCancel && (
+          <Button
+            type='button'
+            className='history-btn'
+            disabled={isPending}
+            onClick={onCancel}
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Renders a comment body, linking the `@username` mentions that were
+ * resolved to a user when the comment was saved to that user's profile.
+ */
+const CommentBody = ({ comment }: { comment: IComment }) => (
+  <p className='p-16-regular whitespace-pre-wrap break-words text-dark-600'>
+    {splitMentions(comment.body).map((part, index) => {
+      const mention = comment.mentions.find(
+        (mention) => mention.username === part.username
+      );
+
+      return mention?.user ? (
+        <Link
+          key={index}
+          href={`/u/${mention.user.username}`}
+          className='text-purple-400 hover:underline'
+        >
+          {part.text}
+        </Link>
+      ) : (
+        part.text
+      );
+    })}
+  </p>
+);
+
+/**
+ * Shows an image's comments as threads, newest first, and lets signed-in
+ * users comment, reply, and edit or delete their own comments. The image's
+ * author can delete any comment on it.
+ */
+export const Comments = ({
+  imageId,
+  shareToken,
+  isImageOwner,
+  initialComments,
+}: {
+  imageId: string;
+  shareToken?: string;
+  isImageOwner: boolean;
+  initialComments: {
+    data: IComment[];
+    nextCursor: string | null;
+    totalComments: number;
+  };
+}) => {
+  const { isSignedIn } = useAuth();
+  const { toast } = useToast();
+  const [comments, setComments] = useState(initialComments.data);
+  const [cursor, setCursor] = useState(initialComments.nextCursor);
+  const [totalComments, setTotalComments] = useState(
+    initialComments.totalComments
+  );
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const path = `/transformations/${imageId}`;
+
+  const onErrorHandler = (error: unknown) =>
+    toast({
+      title: 'Something went wrong',
+      description: (error as Error).message,
+      duration: 5000,
+      className: 'error-toast',
+    });
+
+  /**
+   * Adds a comment, or a reply when `parentId` is given. New threads go on
+   * top, new replies below the earlier ones.
+   */
+  const onAddHandler = async (body: string, parentId?: string) => {
+    try {
+      const comment = await addComment({
+        imageId,
+        parentId,
+        body,
+        shareToken,
+        path,
+      });
+
+      if (!comment) return false;
+
+      setComments((prevComments) =>
+        parentId ? [...prevComments, comment] : [comment, ...prevComments]
+      );
+      setTotalComments((prevTotal) => prevTotal + 1);
+      setReplyingTo(null);
+
+      return true;
+    } catch (error) {
+      onErrorHandler(error);
+
+      return false;
+    }
+  };
+
+  const onEditHandler = async (commentId: string, body: string) => {
+    try {
+      const updatedComment = await updateComment({ commentId, body, path });
+
+      if (!updatedComment) return false;
+
+      setComments((prevComments) =>
+        prevComments.map((comment) =>
+          comment._id === commentId ? updatedComment : comment
+        )
+      );
+      setEditing(null);
+
+      return true;
+    } catch (error) {
+      onErrorHandler(error);
+
+      return false;
+    }
+  };
+
+  const onDeleteHandler = (commentId: string) =>
+    startTransition(async () => {
+      try {
+        const result = await deleteComment({ commentId, path });
+
+        if (!result) return;
+
+        setComments((prevComments) =>
+          result.deletedComment
+            ? prevComments.map((comment) =>
+                comment._id === commentId ? result.deletedComment : comment
+              )
+            : prevComments.filter(
+                (comment) => !result.removedCommentIds.includes(comment._id)
+              )
+        );
+        setTotalComments((prevTotal) => prevTotal - 1);
+      } catch (error) {
+        onErrorHandler(error);
+      }
+    });
+
+  const onLoadMoreHandler = () =>
+    startTransition(async () => {
+      if (!cursor) return;
+
+      try {
+        const result = await getImageComments({ imageId, shareToken, cursor });
+
+        if (!result) return;
+
+        setComments((prevComments) => [...prevComments, ...result.data]);
+        setCursor(result.nextCursor);
+      } catch (error) {
+        onErrorHandler(error);
+      }
+    });
+
+  const renderThread = (comment: IComment, depth: number) => {
+    const replies = comments.filter((reply) => reply.parent === comment._id);
+    const isAuthor = !!comment.isAuthor;
+
+    return (
+      <li key={comment._id} className='flex flex-col gap-4'>
+        <div className='comment-item'>
+          {comment.deletedAt ? (
+            <p className='p-14-medium italic text-dark-400'>
+              This comment was deleted
+            </p>
+          ) : (
+            <>
+              <p className='comment-meta'>
+                {comment.author ? (
+                  <AuthorLink author={comment.author} size={20} />
+                ) : (
+                  <span className='text-dark-600'>Unknown</span>
+                )}
+                {' · '}
+                {new Date(comment.createdAt!).toLocaleString()}
+                {comment.editedAt && ' · edited'}
+              </p>
+
+              {editing === comment._id ? (
+                <CommentForm
+                  initialBody={comment.body}
+                  placeholder='Edit your comment'
+                  submitLabel='Save'
+                  onSubmit={(body) => onEditHandler(comment._id, body)}
+                  onCancel={() => setEditing(null)}
+                />
+              ) : (
+                <CommentBody comment={comment} />
+              )}
+
+              <div className='flex gap-4'>
+                {isSignedIn && (
+                  <button
+                    type='button'
+                    className='comment-action'
+                    onClick={() => setReplyingTo(comment._id)}
+                  >
+                    Reply
+                  </button>
+                )}
+                {isAuthor && (
+                  <button
+                    type='button'
+                    className='comment-action'
+                    onClick={() => setEditing(comment._id)}
+                  >
+                    Edit
+                  </button>
+                )}
+                {(isAuthor || isImageOwner) && (
+                  <button
+                    type='button'
+                    className='comment-action'
+                    disabled={isPending}
+                    onClick={() => onDeleteHandler(comment._id)}
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {replyingTo === comment._id && (
+          <div className='comment-replies'>
+            <CommentForm
+              placeholder='Write a reply'
+              submitLabel='Reply'
+              onSubmit={(body) => onAddHandler(body, comment._id)}
+              onCancel={() => setReplyingTo(null)}
+            />
+          </div>
+        )}
+
+        {replies.length > 0 && (
+          <ul
+            className={
+              depth < MAX_INDENT_DEPTH
+                ? 'comment-replies comment-list'
+                : 'comment-list'
+            }
+          >
+            {replies.map((reply) => renderThread(reply, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <section className='mt-10 border-t border-dark-400/15 pt-8'>
+      <h3 className='h3-bold mb-6 text-dark-600'>
+        Comments {totalComments > 0 && `(${totalComments})`}
+      </h3>
+
+      {isSignedIn ? (
+        <CommentForm
+          placeholder='Add a comment. Mention someone with @username'
+          submitLabel='Comment'
+          onSubmit={(body) => onAddHandler(body)}
+        />
+      ) : (
+        <p className='p-16-regular text-dark-400'>
+          <Link href='/sign-in' className='text-purple-400 hover:underline'>
+            Sign in
+          </Link>{' '}
+          to join the discussion
+        </p>
+      )}
+
+      {comments.length > 0 ? (
+        <ul className='comment-list mt-8'>
+          {comments
+            .filter((comment) => !comment.parent)
+            .map((comment) => renderThread(comment, 0))}
+        </ul>
+      ) : (
+        <div className='collection-empty mt-8'>
+          <p className='p-20-semibold'>No comments yet</p>
+        </div>
+      )}
+
+      {cursor && (
+        <Button
+          type='button'
+          className='history-btn mt-6'
+          disabled={isPending}
+          onClick={onLoadMoreHandler}
+        >
+          {isPending ? 'Loading...' : 'Load More Comments'}
+        </Button>
+      )}
+    </section>
+  );
+};
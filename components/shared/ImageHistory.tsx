@@ -0,0 +1,120 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useTransition } from 'react';
+
+import { useToast } from '@/components/ui/use-toast';
+import { IImageRevision } from '@/lib/database/models/imageRevision.model';
+import {
+  forkImageRevision,
+  revertImageRevision,
+} from '@/lib/actions/revision.actions';
+
+import { Button } from '../ui/button';
+import ProviderImage from './ProviderImage';
+
+export const ImageHistory = ({
+  imageId,
+  revisions,
+}: {
+  imageId: string;
+  revisions: IImageRevision[];
+}) => {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+
+  /**
+   * Restores the image to the given revision and reloads the page data.
+   */
+  const onRevertHandler = (revisionId: string) =>
+    startTransition(async () => {
+      try {
+        await revertImageRevision(revisionId, `/transformations/${imageId}`);
+
+        router.refresh();
+        toast({
+          title: 'Image reverted',
+          description: 'The previous version was kept in the history',
+          duration: 5000,
+          className: 'success-toast',
+        });
+      } catch (error) {
+        console.log(error);
+      }
+    });
+
+  /**
+   * Creates a new image from the given revision and opens it.
+   */
+  const onForkHandler = (revisionId: string) =>
+    startTransition(async () => {
+      try {
+        const forkedImage = await forkImageRevision(revisionId);
+
+        if (forkedImage) router.push(`/transformations/${forkedImage._id}`);
+      } catch (error) {
+        console.log(error);
+      }
+    });
+
+  return (
+    <section className='mt-10 border-t border-dark-400/15 pt-8'>
+      <h3 className='h3-bold mb-6 text-dark-600'>History</h3>
+
+      {revisions.length > 0 ? (
+        <ul className='history-list'>
+          {revisions.map((revision) => (
+            <li key={revision._id} className='history-item'>
+              <ProviderImage
+                src={revision.derivedPublicId || revision.publicId}
+                alt={revision.title}
+                width={80}
+                height={80}
+                config={revision.derivedPublicId ? null : revision.config}
+                className='size-20 rounded-[10px] object-cover'
+              />
+
+              <div className='flex flex-1 flex-col gap-1'>
+                <p className='p-16-semibold line-clamp-1 text-dark-600'>
+                  {revision.title}
+                </p>
+                <p className='p-14-medium capitalize text-purple-400'>
+                  {revision.transformationType}
+                  {revision.prompt && ` · ${revision.prompt}`}
+                  {revision.color && ` · ${revision.color}`}
+                </p>
+                <p className='p-14-medium text-dark-400/60'>
+                  {new Date(revision.createdAt!).toLocaleString()}
+                </p>
+              </div>
+
+              <div className='flex flex-col gap-2 sm:flex-row'>
+                <Button
+                  type='button'
+                  className='history-btn'
+                  disabled={isPending}
+                  onClick={() => onRevertHandler(revision._id)}
+                >
+                  Revert
+                </Button>
+                <Button
+                  type='button'
+                  className='history-btn'
+                  disabled={isPending}
+                  onClick={() => onForkHandler(revision._id)}
+                >
+                  Fork
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className='collection-empty'>
+          <p className='p-20-semibold'>No earlier versions</p>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -14,7 +14,13 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 
-export const InsufficientCreditsModal = () => {
+export const InsufficientCreditsModal = ({
+  cost,
+  creditBalance,
+}: {
+  cost: number;
+  creditBalance: number;
+}) => {
   const router = useRouter();
 
   return (
@@ -49,8 +55,9 @@ export const InsufficientCreditsModal = () => {
           </AlertDialogTitle>
 
           <AlertDialogDescription className='p-16-regular py-3'>
-            No worries, though - you can keep enjoying our services by grabbing
-            more credits.
+            This transformation costs {cost} credits and you have{' '}
+            {creditBalance} left. No worries, though - you can keep enjoying
+            our services by grabbing more credits.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
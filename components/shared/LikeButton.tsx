@@ -0,0 +1,80 @@
+'use client';
+
+import { useAuth } from '@clerk/nextjs';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState, useTransition } from 'react';
+
+import { useToast } from '@/components/ui/use-toast';
+import { setImageLike } from '@/lib/actions/like.actions';
+import { cn } from '@/lib/utils';
+
+/**
+ * Likes or unlikes an image. The count updates right away and is then
+ * corrected to the server's value. Signed-out users are sent to sign in.
+ */
+export const LikeButton = ({
+  imageId,
+  isLiked = false,
+  likeCount = 0,
+  shareToken,
+}: {
+  imageId: string;
+  isLiked?: boolean;
+  likeCount?: number;
+  shareToken?: string;
+}) => {
+  const router = useRouter();
+  const { isSignedIn } = useAuth();
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [liked, setLiked] = useState(isLiked);
+  const [count, setCount] = useState(likeCount);
+
+  useEffect(() => {
+    setLiked(isLiked);
+    setCount(likeCount);
+  }, [isLiked, likeCount]);
+
+  const onLikeHandler = () => {
+    if (!isSignedIn) return router.push('/sign-in');
+
+    const nextLiked = !liked;
+
+    setLiked(nextLiked);
+    setCount((prevCount) => Math.max(0, prevCount + (nextLiked ? 1 : -1)));
+
+    startTransition(async () => {
+      try {
+        const result = await setImageLike({
+          imageId,
+          liked: nextLiked,
+          shareToken,
+        });
+
+        if (result) setCount(result.likeCount);
+      } catch (error) {
+        setLiked(!nextLiked);
+        setCount(count);
+        toast({
+          title: 'Could not save your like',
+          description: 'Please try again',
+          duration: 5000,
+          className: 'error-toast',
+        });
+      }
+    });
+  };
+
+  return (
+    <button
+      type='button'
+      className={cn('like-btn', liked && 'like-btn_active')}
+      aria-pressed={liked}
+      aria-label={liked ? 'Unlike' : 'Like'}
+      disabled={isPending}
+      onClick={onLikeHandler}
+    >
+      {liked ? '\u2665' : '\u2661'} {count}
+    </button>
+  );
+};
@@ -1,10 +1,14 @@
 'use client';
 
 import { useToast } from '@/components/ui/use-toast';
-import { dataUrl, getImageSize } from '@/lib/utils';
-import { CldImage, CldUploadWidget } from 'next-cloudinary';
+import { claimUpload } from '@/lib/actions/image.actions';
+import { imageProviderName } from '@/lib/providers/url';
+import { dataUrl, getImageSize, uploadLocalImage } from '@/lib/utils';
+import { CldUploadWidget } from 'next-cloudinary';
 import { PlaceholderValue } from 'next/dist/shared/lib/get-img-props';
 import Image from 'next/image';
+import { useRef } from 'react';
+import ProviderImage from './ProviderImage';
 
 type MediaUploderProps = {
   onValueChange: (value: string) => void;
@@ -22,6 +26,7 @@ const MediaUploder = ({
   type,
 }: MediaUploderProps) => {
   const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const onUploadSuccessHandler = (result: any) => {
     setImage((prevState: any) => ({
@@ -32,7 +37,9 @@ const MediaUploder = ({
       secureURL: result?.info?.secure_url,
     }));
 
-    onValueChange(result?.info?.secure_url);
+    // The field keeps the provider's public id, which is what the preview
+    // below is rendered from; the delivery URL stays on the image state.
+    onValueChange(result?.info?.public_id);
 
     toast({
       title: 'Image uploaded successfully',
@@ -51,6 +58,98 @@ const MediaUploder = ({
     });
   };
 
+  /**
+   * Records a widget upload as the user's, since it skipped the server,
+   * before it can be transformed.
+   */
+  const onWidgetUploadSuccessHandler = async (result: any) => {
+    try {
+      await claimUpload(result?.info?.public_id);
+    } catch (error) {
+      console.log(error);
+      return onUploadErrorHandler();
+    }
+
+    onUploadSuccessHandler(result);
+  };
+
+  /**
+   * Uploads the picked file through the local provider's upload route and
+   * hands the result to the same handlers the Cloudinary widget uses.
+   */
+  const onLocalFileChangeHandler = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+
+    if (!file) return;
+
+    try {
+      const asset = await uploadLocalImage(file);
+
+      onUploadSuccessHandler({
+        info: {
+          public_id: asset.publicId,
+          width: asset.width,
+          height: asset.height,
+          secure_url: asset.secureURL,
+        },
+      });
+    } catch (error) {
+      console.log(error);
+      onUploadErrorHandler();
+    }
+  };
+
+  const renderUploader = (open: () => void) => (
+    <div className='flex flex-col gap-4'>
+      <h3 className='h3-bold text-dark-600'>Original</h3>
+
+      {publicId ? (
+        <>
+          <div className='cursor-pointer overflow-hidden rounded-[10px]'>
+            <ProviderImage
+              width={getImageSize(type, image, 'width')}
+              height={getImageSize(type, image, 'height')}
+              src={publicId}
+              alt='Uploaded image'
+              sizes={'(max-width: 767px) 100vw, 50vw'}
+              placeholder={dataUrl as PlaceholderValue}
+              className='media-uploader_cldImage'
+            />
+          </div>
+        </>
+      ) : (
+        <div className='media-uploader_cta' onClick={() => open()}>
+          <div className='media-uploader_cta-image'>
+            <Image
+              src='/assets/icons/add.svg'
+              alt='Add image'
+              width={24}
+              height={24}
+            />
+          </div>
+          <p className='p-14-medium'>Click here to upload image</p>
+        </div>
+      )}
+    </div>
+  );
+
+  if (imageProviderName === 'local') {
+    return (
+      <>
+        <input
+          ref={fileInputRef}
+          type='file'
+          accept='image/*'
+          className='hidden'
+          onChange={onLocalFileChangeHandler}
+        />
+        {renderUploader(() => fileInputRef.current?.click())}
+      </>
+    );
+  }
+
   return (
     <CldUploadWidget
       uploadPreset='appu_imaginify'
@@ -58,42 +157,10 @@ const MediaUploder = ({
         multiple: false,
         resourceType: 'image',
       }}
-      onSuccess={onUploadSuccessHandler}
+      onSuccess={onWidgetUploadSuccessHandler}
       onError={onUploadErrorHandler}
     >
-      {({ open }) => (
-        <div className='flex flex-col gap-4'>
-          <h3 className='h3-bold text-dark-600'>Original</h3>
-
-          {publicId ? (
-            <>
-              <div className='cursor-pointer overflow-hidden rounded-[10px]'>
-                <CldImage
-                  width={getImageSize(type, image, 'width')}
-                  height={getImageSize(type, image, 'height')}
-                  src={publicId}
-                  alt='Uploaded image'
-                  sizes={'(max-width: 767px) 100vw, 50vw'}
-                  placeholder={dataUrl as PlaceholderValue}
-                  className='media-uploader_cldImage'
-                />
-              </div>
-            </>
-          ) : (
-            <div className='media-uploader_cta' onClick={() => open()}>
-              <div className='media-uploader_cta-image'>
-                <Image
-                  src='/assets/icons/add.svg'
-                  alt='Add image'
-                  width={24}
-                  height={24}
-                />
-              </div>
-              <p className='p-14-medium'>Click here to upload image</p>
-            </div>
-          )}
-        </div>
-      )}
+      {({ open }) => renderUploader(open)}
     </CldUploadWidget>
   );
 };
@@ -0,0 +1,154 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+import { useToast } from '@/components/ui/use-toast';
+import { transformationTypes } from '@/constants';
+import { deletePreset } from '@/lib/actions/preset.actions';
+import { IPreset } from '@/lib/database/models/preset.model';
+
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+
+const describePreset = (preset: IPreset) =>
+  [preset.aspectRatio, preset.prompt, preset.color].filter(Boolean).join(' · ');
+
+/**
+ * Applies one of the user's presets to the form in a single click, and saves
+ * the form's current options as a new preset.
+ */
+export const PresetPicker = ({
+  presets,
+  disabled = false,
+  onApply,
+  onSave,
+}: {
+  presets: IPreset[];
+  disabled?: boolean;
+  onApply: (preset: IPreset) => void;
+  onSave: (name: string) => Promise<void>;
+}) => {
+  const [name, setName] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  const onSaveHandler = () =>
+    startTransition(async () => {
+      await onSave(name.trim());
+      setName('');
+    });
+
+  return (
+    <div className='flex flex-col gap-4'>
+      {presets.length > 0 && (
+        <div className='flex flex-wrap gap-2'>
+          {presets.map((preset) => (
+            <Button
+              key={preset._id}
+              type='button'
+              className='history-btn'
+              title={describePreset(preset)}
+              disabled={disabled}
+              onClick={() => onApply(preset)}
+            >
+              {preset.name}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className='flex gap-2'>
+        <Input
+          value={name}
+          placeholder='Preset name'
+          className='input-field'
+          maxLength={60}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Button
+          type='button'
+          className='history-btn h-[54px]'
+          disabled={disabled || isPending || !name.trim()}
+          onClick={onSaveHandler}
+        >
+          {isPending ? 'Saving...' : 'Save as Preset'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Lists the user's presets with a link that opens the transformation page
+ * with the preset applied.
+ */
+export const PresetList = ({ presets }: { presets: IPreset[] }) => {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+
+  const onDeleteHandler = (presetId: string) =>
+    startTransition(async () => {
+      try {
+        await deletePreset(presetId, '/profile');
+
+        router.refresh();
+        toast({
+          title: 'Preset deleted',
+          duration: 5000,
+          className: 'success-toast',
+        });
+      } catch (error) {
+        console.log(error);
+      }
+    });
+
+  return (
+    <section className='mt-8 md:mt-14'>
+      <h3 className='h3-bold mb-6 text-dark-600'>Presets</h3>
+
+      {presets.length > 0 ? (
+        <ul className='history-list'>
+          {presets.map((preset) => (
+            <li key={preset._id} className='history-item'>
+              <div className='flex flex-1 flex-col gap-1'>
+                <p className='p-16-semibold line-clamp-1 text-dark-600'>
+                  {preset.name}
+                </p>
+                <p className='p-14-medium text-purple-400'>
+                  {transformationTypes[preset.transformationType].title}
+                  {describePreset(preset) && ` · ${describePreset(preset)}`}
+                </p>
+              </div>
+
+              <div className='flex flex-col gap-2 sm:flex-row'>
+                <Button asChild type='button' className='history-btn'>
+                  <Link
+                    href={`/transformations/add/${preset.transformationType}?preset=${preset._id}`}
+                  >
+                    Use
+                  </Link>
+                </Button>
+                <Button
+                  type='button'
+                  className='history-btn'
+                  disabled={isPending}
+                  onClick={() => onDeleteHandler(preset._id)}
+                >
+                  Delete
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className='collection-empty'>
+          <p className='p-20-semibold'>
+            Save options from a transformation as a preset to reuse them
+          </p>
+        </div>
+      )}
+    </section>
+  );
+};
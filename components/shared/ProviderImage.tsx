@@ -0,0 +1,52 @@
+'use client';
+
+import { CldImage } from 'next-cloudinary';
+import Image, { ImageProps } from 'next/image';
+
+import { getTransformationUrl, imageProviderName } from '@/lib/providers/url';
+
+type ProviderImageProps = Omit<ImageProps, 'src' | 'width' | 'height'> & {
+  src: string;
+  width?: number;
+  height?: number;
+  config?: Transformations | null;
+};
+
+/**
+ * Renders an uploaded image, with an optional transformation, through the
+ * configured image provider.
+ */
+const ProviderImage = ({
+  src,
+  alt,
+  width,
+  height,
+  config,
+  ...props
+}: ProviderImageProps) => {
+  if (imageProviderName === 'local') {
+    return (
+      <Image
+        src={getTransformationUrl({ publicId: src, width, height, config })}
+        alt={alt}
+        width={width}
+        height={height}
+        unoptimized
+        {...props}
+      />
+    );
+  }
+
+  return (
+    <CldImage
+      src={src}
+      alt={alt}
+      width={width}
+      height={height}
+      {...props}
+      {...config}
+    />
+  );
+};
+
+export default ProviderImage;
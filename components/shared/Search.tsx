@@ -10,13 +10,19 @@ import { formUrlQuery, removeKeysFromQuery } from '@/lib/utils';
 export const Search = () => {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const [query, setQuery] = useState('');
+  const [query, setQuery] = useState(searchParams.get('query') ?? '');
 
   useEffect(() => {
+    // Only a changed query starts the results over from the first page.
+    if (query === (searchParams.get('query') ?? '')) return;
+
     const delayDebounceFn = setTimeout(() => {
+      const params = new URLSearchParams(searchParams.toString());
+      params.delete('cursor');
+
       if (query) {
         const newUrl = formUrlQuery({
-          searchParams: searchParams.toString(),
+          searchParams: params.toString(),
           key: 'query',
           value: query,
         });
@@ -24,7 +30,7 @@ export const Search = () => {
         router.push(newUrl, { scroll: false });
       } else {
         const newUrl = removeKeysFromQuery({
-          searchParams: searchParams.toString(),
+          searchParams: params.toString(),
           keysToRemove: ['query'],
         });
 
@@ -47,6 +53,7 @@ export const Search = () => {
       <Input
         className='search-field'
         placeholder='Search'
+        value={query}
         onChange={(e) => setQuery(e.target.value)}
       />
     </div>
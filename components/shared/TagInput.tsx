@@ -0,0 +1,108 @@
+'use client';
+
+import { KeyboardEvent, useEffect, useState } from 'react';
+
+import { Input } from '@/components/ui/input';
+import { maxImageTags } from '@/constants';
+import { getTagSuggestions } from '@/lib/actions/image.actions';
+import { normalizeTag, normalizeTags } from '@/lib/utils';
+
+/**
+ * Edits a list of free-form tags, suggesting existing tags while typing.
+ * Enter or a comma adds the typed tag, and Backspace on an empty input
+ * removes the last one.
+ */
+export const TagInput = ({
+  value = [],
+  onChange,
+}: {
+  value?: string[];
+  onChange: (tags: string[]) => void;
+}) => {
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+
+  const isFull = value.length >= maxImageTags;
+  const newSuggestions = suggestions.filter((tag) => !value.includes(tag));
+
+  useEffect(() => {
+    if (!normalizeTag(query)) return setSuggestions([]);
+
+    let isCurrent = true;
+
+    const delayDebounceFn = setTimeout(async () => {
+      try {
+        const tags = await getTagSuggestions(query);
+
+        if (isCurrent) setSuggestions(tags ?? []);
+      } catch (error) {
+        console.log(error);
+      }
+    }, 200);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(delayDebounceFn);
+    };
+  }, [query]);
+
+  const addTag = (tag: string) => {
+    onChange(normalizeTags([...value, tag]));
+    setQuery('');
+  };
+
+  const onKeyDownHandler = (e: KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' || e.key === ',') && query.trim()) {
+      e.preventDefault();
+      addTag(query);
+    } else if (e.key === 'Backspace' && !query && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className='flex flex-col gap-3'>
+      {value.length > 0 && (
+        <div className='tag-list'>
+          {value.map((tag) => (
+            <button
+              key={tag}
+              type='button'
+              className='tag-chip'
+              aria-label={`Remove tag ${tag}`}
+              onClick={() => onChange(value.filter((item) => item !== tag))}
+            >
+              #{tag} &times;
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Input
+        value={query}
+        placeholder={
+          isFull ? `At most ${maxImageTags} tags` : 'Add tags, e.g. portrait'
+        }
+        className='input-field'
+        disabled={isFull}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={onKeyDownHandler}
+      />
+
+      {newSuggestions.length > 0 && !isFull && (
+        <div className='tag-list'>
+          {newSuggestions.map((tag) => (
+            <button
+              key={tag}
+              type='button'
+              className='tag-chip_suggestion'
+              onClick={() => addTag(tag)}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
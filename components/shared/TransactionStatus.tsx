@@ -0,0 +1,65 @@
+import { transactionEvents, transactionStatuses } from '@/constants';
+import { ITransaction } from '@/lib/database/models/transaction.model';
+import { cn } from '@/lib/utils';
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+/**
+ * Shows a transaction's status, highlighted once a refund or dispute took
+ * credits back.
+ */
+export const TransactionStatusBadge = ({
+  status = 'paid',
+}: {
+  status?: TransactionStatus;
+}) => (
+  <span
+    className={cn(
+      'billing-status',
+      status !== 'paid' && status !== 'dispute_won' && 'billing-status_alert'
+    )}
+  >
+    {transactionStatuses[status].label}
+  </span>
+);
+
+/**
+ * Lists the refunds and disputes of a transaction's payment, with the
+ * credits each took back or gave back.
+ */
+export const TransactionEvents = ({
+  events,
+}: {
+  events: ITransaction['events'];
+}) =>
+  events?.length > 0 ? (
+    <ul className='billing-events'>
+      {events.map((event) => (
+        <li key={event.type + event.stripeId + event.createdAt}>
+          {new Date(event.createdAt!).toLocaleDateString()}
+          {' · '}
+          {transactionEvents[event.type].label} {formatAmount(event.amount)}
+          {event.credits > 0 &&
+            ` · ${event.credits} ${transactionEvents[event.type].credits}`}
+        </li>
+      ))}
+    </ul>
+  ) : null;
+
+/**
+ * Tells the owner of a frozen account why it is frozen and how it is
+ * unfrozen.
+ */
+export const FrozenAccountNotice = ({
+  frozen,
+}: {
+  frozen?: { reason: 'refund' | 'dispute' } | null;
+}) =>
+  frozen ? (
+    <p className='billing-notice'>
+      Your account is frozen after a{' '}
+      {frozen.reason === 'dispute' ? 'payment dispute' : 'refund'}, so you
+      cannot use credits for now. It is unfrozen once the dispute is won, or by
+      contacting support.
+    </p>
+  ) : null;
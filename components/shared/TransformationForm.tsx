@@ -16,20 +16,62 @@ import { Form } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import {
   aspectRatioOptions,
-  creditFee,
   defaultValues,
   transformationTypes,
+  visibilityOptions,
 } from '@/constants';
 import { CustomField } from './CustomField';
-import { useEffect, useState, useTransition } from 'react';
-import { AspectRatioKey, debounce, deepMergeObjects } from '@/lib/utils';
-import { updateCredits } from '@/lib/actions/user.actions';
+import { useState, useTransition } from 'react';
+import {
+  AspectRatioKey,
+  buildStepConfig,
+  countAppliedSteps,
+  getPipelineCost,
+  getTransformationSteps,
+  pollTransformationJob,
+} from '@/lib/utils';
 import MediaUploder from './MediaUploder';
 import TransformedImage from './TransformedImage';
-import { getCldImageUrl } from 'next-cloudinary';
-import { addImage, updateImage } from '@/lib/actions/image.actions';
+import TransformationSteps from './TransformationSteps';
+import {
+  addImage,
+  applyTransformation,
+  reportTransformationFailure,
+  updateImage,
+} from '@/lib/actions/image.actions';
 import { useRouter } from 'next/navigation';
 import { InsufficientCreditsModal } from './InsufficientCreditsModal';
+import { useToast } from '@/components/ui/use-toast';
+import { createPreset } from '@/lib/actions/preset.actions';
+import { IPreset } from '@/lib/database/models/preset.model';
+import { PresetPicker } from './Presets';
+import { TagInput } from './TagInput';
+
+// Options of a preset or remixed image, with the ones it does not set left
+// out.
+const getPresetOptions = (
+  preset: { aspectRatio?: string; prompt?: string; color?: string } | null
+) => {
+  const options: { aspectRatio?: string; prompt?: string; color?: string } = {};
+
+  if (preset?.aspectRatio) options.aspectRatio = preset.aspectRatio;
+  if (preset?.prompt) options.prompt = preset.prompt;
+  if (preset?.color) options.color = preset.color;
+
+  return options;
+};
+
+const getAspectRatioImage = (aspectRatio?: string) => {
+  const imageSize = aspectRatioOptions[aspectRatio as AspectRatioKey];
+
+  return imageSize
+    ? {
+        aspectRatio: imageSize.aspectRatio,
+        width: imageSize.width,
+        height: imageSize.height,
+      }
+    : null;
+};
 
 export const formSchema = z.object({
   title: z.string(),
@@ -37,6 +79,8 @@ export const formSchema = z.object({
   color: z.string().optional(),
   prompt: z.string().optional(),
   publicId: z.string(),
+  visibility: z.string().optional(),
+  tags: z.array(z.string()).optional(),
 });
 
 const TransformationForm = ({
@@ -45,18 +89,80 @@ const TransformationForm = ({
   userId,
   type,
   creditBalance,
+  planId,
   config = null,
+  presets = [],
+  preset = null,
+  remix = null,
 }: TransformationFormProps) => {
-  const transformationType = transformationTypes[type];
-  const [image, setImage] = useState(data);
-  const [newTransformation, setNewTransformation] =
-    useState<Transformations | null>(null);
+  // A preset picked on the profile page, or an image opened for remixing,
+  // prefills a new transformation.
+  const initialOptions =
+    action === 'Add' ? getPresetOptions(preset ?? remix) : {};
+
+  const [image, setImage] = useState(
+    data ??
+      (remix?.upload
+        ? {
+            ...getAspectRatioImage(initialOptions.aspectRatio),
+            ...remix.upload,
+          }
+        : getAspectRatioImage(initialOptions.aspectRatio))
+  );
+  const [steps, setSteps] = useState<TransformationStep[]>(() => {
+    const savedSteps = getTransformationSteps(data);
+
+    if (savedSteps.length > 0) return savedSteps;
+
+    // A remix runs the source's steps again, unless a preset was picked.
+    if (action === 'Add' && !preset && remix?.config.length) {
+      return remix.config;
+    }
+
+    return [{ type, ...initialOptions }];
+  });
+  const [savedPresets, setSavedPresets] = useState<IPreset[]>(presets);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isTransforming, setIsTransforming] = useState(false);
-  const [transformationConfig, setTransformationConfig] = useState(config);
+  const [availableCredits, setAvailableCredits] = useState(creditBalance);
+  const [chargeId, setChargeId] = useState<string | null>(null);
   const [isPendding, startTransition] = useTransition();
 
   const router = useRouter();
+  const { toast } = useToast();
+
+  // Steps are applied in order, so everything after the first step whose
+  // result is missing or stale still has to run.
+  const appliedCount = countAppliedSteps(steps, image?.publicId);
+  const transformationCost =
+    getPipelineCost(steps, image, planId) -
+    getPipelineCost(steps.slice(0, appliedCount), image, planId);
+  const finalStep = appliedCount > 0 ? steps[appliedCount - 1] : undefined;
+
+  const transformedImage = image && {
+    ...image,
+    derivedPublicId: finalStep?.derivedPublicId,
+  };
+
+  // Images saved before pipelines may still be rendered from a lazy config.
+  const transformationConfig =
+    finalStep?.config ?? (Array.isArray(config) ? null : config);
+
+  const showRefundToast = (amount?: number) => {
+    const refunded = amount === 1 ? '1 credit was' : `${amount} credits were`;
+
+    toast({
+      title: 'Transformation failed',
+      // A job that timed out on the client is refunded later by the server,
+      // if it never finishes.
+      description:
+        amount === undefined
+          ? 'The image is taking too long. If it never finishes, its credits are refunded to your account'
+          : `The image could not be generated, so ${refunded} refunded to your account`,
+      duration: 5000,
+      className: 'error-toast',
+    });
+  };
 
   const initialValues =
     data && action === 'Update'
@@ -66,8 +172,17 @@ const TransformationForm = ({
           color: data?.color,
           prompt: data?.prompt,
           publicId: data?.publicId,
+          visibility: data?.visibility ?? 'public',
+          tags: data?.tags ?? [],
         }
-      : defaultValues;
+      : {
+          ...defaultValues,
+          ...initialOptions,
+          ...(remix && {
+            title: `Remix of ${remix.title}`,
+            publicId: remix.upload?.publicId ?? '',
+          }),
+        };
 
   // step 1. Define your form.
   const form = useForm<z.infer<typeof formSchema>>({
@@ -80,25 +195,20 @@ const TransformationForm = ({
     setIsSubmitting(true);
 
     if (data || image) {
-      const transformationUrl = getCldImageUrl({
-        width: image?.width,
-        height: image?.height,
-        src: image?.publicId,
-        ...transformationConfig,
-      });
-
       const imageData = {
         title: values.title,
         publicId: image?.publicId,
         transformationType: type,
         width: image?.width,
         height: image?.height,
-        config: transformationConfig,
         secureURL: image?.secureURL,
-        transformationURL: transformationUrl,
         aspectRatio: values.aspectRatio,
         prompt: values.prompt,
         color: values.color,
+        visibility: values.visibility as ImageVisibility,
+        tags: values.tags,
+        // An empty id keeps the step already saved at that position.
+        jobIds: steps.slice(0, appliedCount).map((step) => step.jobId ?? ''),
       };
 
       if (action === 'Add') {
@@ -107,6 +217,9 @@ const TransformationForm = ({
             image: imageData,
             userId,
             path: '/',
+            ...(remix && {
+              remix: { imageId: remix._id, shareToken: remix.shareToken },
+            }),
           });
 
           if (newImage) {
@@ -142,86 +255,239 @@ const TransformationForm = ({
     setIsSubmitting(false);
   }
 
+  /**
+   * Updates a step's options. Its previous result no longer matches, and
+   * neither do the results of the steps built on top of it.
+   */
+  const onChangeStepHandler = (
+    index: number,
+    changes: Partial<TransformationStep>
+  ) => {
+    setSteps((prevSteps) =>
+      prevSteps.map((step, i) =>
+        i === index
+          ? {
+              ...step,
+              ...changes,
+              jobId: undefined,
+              derivedPublicId: undefined,
+            }
+          : step
+      )
+    );
+  };
+
+  const onAddStepHandler = (stepType: TransformationTypeKey) => {
+    setSteps((prevSteps) => [...prevSteps, { type: stepType }]);
+  };
+
+  const onRemoveStepHandler = (index: number) => {
+    setSteps((prevSteps) => prevSteps.filter((_, i) => i !== index));
+  };
+
+  const onMoveStepHandler = (index: number, direction: -1 | 1) => {
+    setSteps((prevSteps) => {
+      const nextSteps = [...prevSteps];
+
+      [nextSteps[index], nextSteps[index + direction]] = [
+        nextSteps[index + direction],
+        nextSteps[index],
+      ];
+
+      return nextSteps;
+    });
+  };
+
   /**
    * Handles selecting a field from the aspect ratio dropdown.
    * Updates the image state with the new aspect ratio.
-   * Sets the new transformation to the config for the current transformation type.
+   * Updates the first step, which carries the page's transformation type.
    * Calls the onChangeField callback with the new value.
    */
   const onSelectFieldHandler = (
     value: string,
     onChangeField: (value: string) => void
   ) => {
-    const imageSize = aspectRatioOptions[value as AspectRatioKey];
-
     setImage((prevImage: any) => ({
       ...prevImage,
-      aspectRatio: imageSize.aspectRatio,
-      width: imageSize.width,
-      height: imageSize.height,
+      ...getAspectRatioImage(value),
     }));
 
-    setNewTransformation(transformationType.config);
+    onChangeStepHandler(0, { aspectRatio: value });
 
     return onChangeField(value);
   };
 
   /**
-   * Handles updating the transformation config when an input field changes.
-   * Debounces the update to avoid unnecessary rerenders.
-   * Updates the newTransformation state with the changed field.
+   * Handles updating the first step when a prompt or color field changes.
    * Calls the onChangeField callback with the new value.
    */
   const onInputChangeHandler = (
-    fieldName: string,
+    fieldName: 'prompt' | 'color',
     value: string,
-    type: string,
     onChangeField: (value: string) => void
   ) => {
-    debounce(() => {
-      setNewTransformation((prevState: any) => ({
-        ...prevState,
-        [type]: {
-          ...prevState?.[type],
-          [fieldName === 'prompt' ? 'prompt' : 'to']: value,
-        },
-      }));
-    }, 1000)();
+    onChangeStepHandler(0, { [fieldName]: value });
 
     return onChangeField(value);
   };
 
+  /**
+   * Fills the form and the first step with a preset's options.
+   */
+  const onApplyPresetHandler = (preset: IPreset) => {
+    const options = getPresetOptions(preset);
+
+    if (options.aspectRatio) {
+      setImage((prevImage: any) => ({
+        ...prevImage,
+        ...getAspectRatioImage(options.aspectRatio),
+      }));
+    }
+
+    form.setValue('aspectRatio', options.aspectRatio ?? '');
+    form.setValue('prompt', options.prompt ?? '');
+    form.setValue('color', options.color ?? '');
+
+    onChangeStepHandler(0, {
+      aspectRatio: options.aspectRatio,
+      prompt: options.prompt,
+      color: options.color,
+    });
+  };
+
+  /**
+   * Saves the form's current options as a preset for this transformation.
+   */
+  const onSavePresetHandler = async (name: string) => {
+    const values = form.getValues();
+
+    try {
+      const newPreset = await createPreset({
+        preset: {
+          name,
+          transformationType: type,
+          aspectRatio: values.aspectRatio,
+          prompt: values.prompt,
+          color: values.color,
+        },
+        path: '/profile',
+      });
+
+      if (newPreset) {
+        setSavedPresets((prevPresets) => [newPreset, ...prevPresets]);
+        toast({
+          title: 'Preset saved',
+          description: `Apply "${newPreset.name}" to reuse these options`,
+          duration: 5000,
+          className: 'success-toast',
+        });
+      }
+    } catch (error) {
+      console.log(error);
+    }
+  };
+
   /**
    * Handles transforming the image when the transform button is clicked.
    * Sets isTransforming to true to show a loading state.
-   * Merges the newTransformation with the existing transformationConfig.
-   * Clears the newTransformation state.
-   * Calls startTransition to transition to the new transformed image.
-   * Calls updateCredits to deduct credits for the transformation.
+   * Runs every step that has not been applied yet, in order, each on the
+   * previous step's output. Each step is charged separately through
+   * applyTransformation, and its job is polled until the derived image is
+   * ready. A failed step stops the pipeline.
    */
   const onTransformHandler = async () => {
     setIsTransforming(true);
 
-    setTransformationConfig(
-      deepMergeObjects(newTransformation, transformationConfig)
-    );
-
-    setNewTransformation(null);
     startTransition(async () => {
-      await updateCredits(userId, creditFee);
+      const nextSteps = [...steps];
+
+      try {
+        for (let index = appliedCount; index < nextSteps.length; index++) {
+          const step = nextSteps[index];
+          const sourcePublicId =
+            index === 0
+              ? image?.publicId
+              : nextSteps[index - 1].derivedPublicId;
+
+          const result = await applyTransformation({
+            type: step.type,
+            config: buildStepConfig(step),
+            publicId: sourcePublicId,
+            aspectRatio: step.aspectRatio,
+            shareToken: remix?.shareToken,
+          });
+
+          if (!result) return;
+
+          setAvailableCredits(result.creditBalance);
+
+          const job = await pollTransformationJob(result.jobId);
+
+          setAvailableCredits(job.creditBalance);
+
+          if (job.status === 'failed') {
+            setIsTransforming(false);
+            showRefundToast(job.refundedCredits);
+            return;
+          }
+
+          nextSteps[index] = {
+            ...step,
+            config: result.config,
+            jobId: result.jobId,
+            sourcePublicId,
+            derivedPublicId: job.derivedPublicId,
+          };
+
+          setSteps([...nextSteps]);
+          setChargeId(result.chargeId);
+        }
+      } catch (error) {
+        console.log(error);
+        setIsTransforming(false);
+        toast({
+          title: 'Transformation failed',
+          description: 'Something went wrong. Please try again',
+          duration: 5000,
+          className: 'error-toast',
+        });
+      }
     });
   };
 
-  useEffect(() => {
-    if (image && (type === 'restore' || type === 'removeBackground')) {
-      setNewTransformation(transformationType.config);
+  /**
+   * Handles the transformed image failing to render.
+   * Reports the last charge to the server, which checks the derived image
+   * itself and refunds the credits if it really failed.
+   * Each charge is reported at most once.
+   */
+  const onTransformationErrorHandler = async () => {
+    if (!chargeId) return;
+
+    setChargeId(null);
+
+    try {
+      const result = await reportTransformationFailure(chargeId);
+
+      if (result?.refunded) {
+        setAvailableCredits(result.creditBalance!);
+        showRefundToast(result.amount!);
+      }
+    } catch (error) {
+      console.log(error);
     }
-  }, [image, transformationType.config, type]);
+  };
 
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className='space-y-8'>
-        {creditBalance < Math.abs(creditFee) && <InsufficientCreditsModal />}
+        {transformationCost > 0 && availableCredits < transformationCost && (
+          <InsufficientCreditsModal
+            cost={transformationCost}
+            creditBalance={availableCredits}
+          />
+        )}
 
         <CustomField
           control={form.control}
@@ -231,6 +497,47 @@ const TransformationForm = ({
           render={({ field }) => <Input {...field} />}
         />
 
+        <CustomField
+          control={form.control}
+          name='visibility'
+          formLabel='Visibility'
+          className='w-full'
+          render={({ field }) => (
+            <Select onValueChange={field.onChange} value={field.value}>
+              <SelectTrigger className='select-field'>
+                <SelectValue placeholder='Select visibility' />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(visibilityOptions).map(([key, option]) => (
+                  <SelectItem key={key} value={key} className='select-item'>
+                    {option.label} - {option.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        />
+
+        <CustomField
+          control={form.control}
+          name='tags'
+          formLabel='Tags'
+          className='w-full'
+          render={({ field }) => (
+            <TagInput value={field.value} onChange={field.onChange} />
+          )}
+        />
+
+        {/* presets */}
+        {type !== 'restore' && type !== 'removeBackground' && (
+          <PresetPicker
+            presets={savedPresets}
+            disabled={isPendding}
+            onApply={onApplyPresetHandler}
+            onSave={onSavePresetHandler}
+          />
+        )}
+
         {/* generative fill */}
         {type === 'fill' && (
           <CustomField
@@ -281,7 +588,6 @@ const TransformationForm = ({
                     onInputChangeHandler(
                       'prompt',
                       e.target.value,
-                      type,
                       field.onChange
                     )
                   }
@@ -304,7 +610,6 @@ const TransformationForm = ({
                       onInputChangeHandler(
                         'color',
                         e.target.value,
-                        'recolor',
                         field.onChange
                       )
                     }
@@ -333,24 +638,44 @@ const TransformationForm = ({
           />
 
           <TransformedImage
-            image={image}
-            type={type}
+            image={transformedImage}
+            type={finalStep?.type ?? type}
             title={form.getValues().title}
             isTransforming={isTransforming}
             setIsTransforming={setIsTransforming}
+            onTransformationError={onTransformationErrorHandler}
             transformationConfig={transformationConfig}
           />
         </div>
 
+        <TransformationSteps
+          steps={steps}
+          appliedCount={appliedCount}
+          disabled={isPendding}
+          onAddStep={onAddStepHandler}
+          onRemoveStep={onRemoveStepHandler}
+          onMoveStep={onMoveStepHandler}
+          onChangeStep={onChangeStepHandler}
+        />
+
         <div className='flex flex-col gap-4'>
           {/*  transforming button */}
           <Button
             type='button'
             className='submit-button capitalize'
-            disabled={isTransforming || newTransformation === null}
+            disabled={
+              isTransforming ||
+              isPendding ||
+              !image?.publicId ||
+              appliedCount === steps.length
+            }
             onClick={onTransformHandler}
           >
-            {isTransforming ? 'Transforming...' : 'Apply Transformation'}
+            {isTransforming
+              ? 'Transforming...'
+              : `Apply Transformation (${transformationCost} ${
+                  transformationCost === 1 ? 'credit' : 'credits'
+                })`}
           </Button>
 
           {/* submit button */}
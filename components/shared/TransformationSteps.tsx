@@ -0,0 +1,186 @@
+'use client';
+
+import Image from 'next/image';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { aspectRatioOptions, transformationTypes } from '@/constants';
+import { AspectRatioKey } from '@/lib/utils';
+
+import ProviderImage from './ProviderImage';
+
+type TransformationStepsProps = {
+  steps: TransformationStep[];
+  appliedCount: number;
+  disabled?: boolean;
+  onAddStep: (type: TransformationTypeKey) => void;
+  onRemoveStep: (index: number) => void;
+  onMoveStep: (index: number, direction: -1 | 1) => void;
+  onChangeStep: (index: number, changes: Partial<TransformationStep>) => void;
+};
+
+/**
+ * Editable, ordered list of the steps applied to an upload. The first step
+ * is the page's transformation type and is edited through the main form
+ * fields; the steps after it carry their own inputs.
+ */
+const TransformationSteps = ({
+  steps,
+  appliedCount,
+  disabled = false,
+  onAddStep,
+  onRemoveStep,
+  onMoveStep,
+  onChangeStep,
+}: TransformationStepsProps) => {
+  return (
+    <div className='flex flex-col gap-4'>
+      <h3 className='h3-bold text-dark-600'>Steps</h3>
+
+      <ul className='history-list'>
+        {steps.map((step, index) => (
+          <li key={index} className='history-item flex-col sm:flex-row'>
+            {index < appliedCount && step.derivedPublicId ? (
+              <ProviderImage
+                src={step.derivedPublicId}
+                alt={`Step ${index + 1} preview`}
+                width={80}
+                height={80}
+                className='size-20 rounded-[10px] object-cover'
+              />
+            ) : (
+              <div className='flex-center p-14-medium size-20 rounded-[10px] border border-dashed bg-purple-100/20 text-center'>
+                Not applied
+              </div>
+            )}
+
+            <div className='flex w-full flex-1 flex-col gap-3'>
+              <p className='p-16-semibold text-dark-600'>
+                {index + 1}. {transformationTypes[step.type].title}
+              </p>
+
+              {index > 0 && step.type === 'fill' && (
+                <Select
+                  value={step.aspectRatio}
+                  disabled={disabled}
+                  onValueChange={(value) =>
+                    onChangeStep(index, { aspectRatio: value })
+                  }
+                >
+                  <SelectTrigger className='select-field'>
+                    <SelectValue placeholder='Select size' />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(aspectRatioOptions).map((key) => (
+                      <SelectItem key={key} value={key} className='select-item'>
+                        {aspectRatioOptions[key as AspectRatioKey].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {index > 0 &&
+                (step.type === 'remove' || step.type === 'recolor') && (
+                  <div className='prompt-field'>
+                    <Input
+                      value={step.prompt ?? ''}
+                      placeholder={
+                        step.type === 'remove'
+                          ? 'Object to Remove'
+                          : 'Color to Recolor'
+                      }
+                      className='input-field'
+                      disabled={disabled}
+                      onChange={(e) =>
+                        onChangeStep(index, { prompt: e.target.value })
+                      }
+                    />
+
+                    {step.type === 'recolor' && (
+                      <Input
+                        value={step.color ?? ''}
+                        placeholder='Replacement Color'
+                        className='input-field'
+                        disabled={disabled}
+                        onChange={(e) =>
+                          onChangeStep(index, { color: e.target.value })
+                        }
+                      />
+                    )}
+                  </div>
+                )}
+            </div>
+
+            {index > 0 && (
+              <div className='flex gap-1'>
+                <Button
+                  type='button'
+                  variant='ghost'
+                  size='icon'
+                  disabled={disabled || index === 1}
+                  onClick={() => onMoveStep(index, -1)}
+                >
+                  &uarr;
+                </Button>
+                <Button
+                  type='button'
+                  variant='ghost'
+                  size='icon'
+                  disabled={disabled || index === steps.length - 1}
+                  onClick={() => onMoveStep(index, 1)}
+                >
+                  &darr;
+                </Button>
+                <Button
+                  type='button'
+                  variant='ghost'
+                  size='icon'
+                  disabled={disabled}
+                  onClick={() => onRemoveStep(index)}
+                >
+                  <Image
+                    src='/assets/icons/close.svg'
+                    alt='Remove step'
+                    width={20}
+                    height={20}
+                  />
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <Select
+        value=''
+        disabled={disabled}
+        onValueChange={(value) => onAddStep(value as TransformationTypeKey)}
+      >
+        <SelectTrigger className='select-field'>
+          <SelectValue placeholder='Add a step' />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(transformationTypes).map((transformation) => (
+            <SelectItem
+              key={transformation.type}
+              value={transformation.type}
+              className='select-item'
+            >
+              {transformation.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default TransformationSteps;
@@ -1,9 +1,10 @@
 'use client';
 
 import { dataUrl, debounce, download, getImageSize } from '@/lib/utils';
-import { CldImage, getCldImageUrl } from 'next-cloudinary';
+import { getTransformationUrl } from '@/lib/providers/url';
 import { PlaceholderValue } from 'next/dist/shared/lib/get-img-props';
 import Image from 'next/image';
+import ProviderImage from './ProviderImage';
 
 const TransformedImage = ({
   image,
@@ -12,19 +13,24 @@ const TransformedImage = ({
   transformationConfig,
   isTransforming,
   setIsTransforming,
+  onTransformationError,
   hasDownload = false,
 }: TransformedImageProps) => {
+  // A derived asset already has the transformation baked in.
+  const src = image?.derivedPublicId || image?.publicId;
+  const config = image?.derivedPublicId ? null : transformationConfig;
+
   const downloadHandler = (
     e: React.MouseEvent<HTMLButtonElement, MouseEvent>
   ) => {
     e.preventDefault();
 
     download(
-      getCldImageUrl({
+      getTransformationUrl({
         width: image?.width,
         height: image?.height,
-        src: image?.publicId,
-        ...transformationConfig,
+        publicId: src,
+        config,
       }),
       title
     );
@@ -50,10 +56,10 @@ const TransformedImage = ({
 
       {image?.publicId && transformationConfig ? (
         <div className='relative'>
-          <CldImage
+          <ProviderImage
             width={getImageSize(type, image, 'width')}
             height={getImageSize(type, image, 'height')}
-            src={image?.publicId}
+            src={src}
             alt={image.title}
             sizes={'(max-width: 767px) 100vw, 50vw'}
             placeholder={dataUrl as PlaceholderValue}
@@ -62,11 +68,13 @@ const TransformedImage = ({
               setIsTransforming && setIsTransforming(false);
             }}
             onError={() => {
+              onTransformationError && onTransformationError();
+
               debounce(() => {
                 setIsTransforming && setIsTransforming(false);
               }, 8000)();
             }}
-            {...transformationConfig}
+            config={config}
           />
 
           {isTransforming && (
@@ -0,0 +1,99 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useTransition } from 'react';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { visibilityOptions } from '@/constants';
+
+import { Button } from '../ui/button';
+
+/**
+ * Lets the author change who can see an image or album, and copy the share
+ * link of an unlisted one.
+ */
+export const VisibilityControl = ({
+  visibility,
+  shareToken,
+  path,
+  onVisibilityChange,
+}: {
+  visibility: ImageVisibility;
+  shareToken?: string | null;
+  // Page the share link points at.
+  path: string;
+  onVisibilityChange: (visibility: ImageVisibility) => Promise<unknown>;
+}) => {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+
+  const sharePath = `${path}?share=${shareToken}`;
+
+  const onVisibilityChangeHandler = (value: string) =>
+    startTransition(async () => {
+      try {
+        await onVisibilityChange(value as ImageVisibility);
+
+        router.refresh();
+      } catch (error) {
+        console.log(error);
+      }
+    });
+
+  const onCopyLinkHandler = async () => {
+    await navigator.clipboard.writeText(
+      `${window.location.origin}${sharePath}`
+    );
+
+    toast({
+      title: 'Share link copied',
+      description: 'Anyone with the link can see it',
+      duration: 5000,
+      className: 'success-toast',
+    });
+  };
+
+  return (
+    <div className='flex flex-col gap-4 sm:flex-row sm:items-center'>
+      <Select
+        value={visibility}
+        disabled={isPending}
+        onValueChange={onVisibilityChangeHandler}
+      >
+        <SelectTrigger className='select-field sm:w-64'>
+          <SelectValue placeholder='Select visibility' />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(visibilityOptions).map(([key, option]) => (
+            <SelectItem key={key} value={key} className='select-item'>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <p className='p-14-medium text-dark-400'>
+        {visibilityOptions[visibility].description}
+      </p>
+
+      {visibility === 'unlisted' && shareToken && (
+        <Button
+          type='button'
+          className='history-btn'
+          disabled={isPending}
+          onClick={onCopyLinkHandler}
+        >
+          Copy Share Link
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -39,6 +39,11 @@ export const navLinks = [
     route: '/credits',
     icon: '/assets/icons/bag.svg',
   },
+  {
+    label: 'Billing',
+    route: '/billing',
+    icon: '/assets/icons/credit-coins.svg',
+  },
 ];
 
 export const plans = [
@@ -48,6 +53,7 @@ export const plans = [
     icon: '/assets/icons/free-plan.svg',
     price: 0,
     credits: 20,
+    transformationMultiplier: 1,
     inclusions: [
       {
         label: '20 Free Credits',
@@ -73,6 +79,7 @@ export const plans = [
     icon: '/assets/icons/free-plan.svg',
     price: 40,
     credits: 120,
+    transformationMultiplier: 0.8,
     inclusions: [
       {
         label: '120 Credits',
@@ -98,6 +105,7 @@ export const plans = [
     icon: '/assets/icons/free-plan.svg',
     price: 199,
     credits: 2000,
+    transformationMultiplier: 0.5,
     inclusions: [
       {
         label: '2000 Credits',
@@ -119,6 +127,75 @@ export const plans = [
   },
 ];
 
+// The plan of users without an active subscription.
+export const freePlanId = 1;
+
+// Recurring plans. Each grants its credits every billing cycle and, while
+// the subscription is active, prices transformations like its `planId`.
+export const subscriptionPlans = [
+  {
+    _id: 'pro-monthly',
+    name: 'Pro Monthly',
+    icon: '/assets/icons/free-plan.svg',
+    price: 15,
+    credits: 120,
+    interval: 'month' as const,
+    planId: 2,
+    inclusions: [
+      {
+        label: '120 Credits Every Month',
+        isIncluded: true,
+      },
+      {
+        label: 'Full Access to Services',
+        isIncluded: true,
+      },
+      {
+        label: 'Priority Customer Support',
+        isIncluded: true,
+      },
+      {
+        label: 'Priority Updates',
+        isIncluded: false,
+      },
+    ],
+  },
+  {
+    _id: 'premium-monthly',
+    name: 'Premium Monthly',
+    icon: '/assets/icons/free-plan.svg',
+    price: 59,
+    credits: 800,
+    interval: 'month' as const,
+    planId: 3,
+    inclusions: [
+      {
+        label: '800 Credits Every Month',
+        isIncluded: true,
+      },
+      {
+        label: 'Full Access to Services',
+        isIncluded: true,
+      },
+      {
+        label: 'Priority Customer Support',
+        isIncluded: true,
+      },
+      {
+        label: 'Priority Updates',
+        isIncluded: true,
+      },
+    ],
+  },
+];
+
+// What happens when a refund or a dispute takes back credits that were
+// already spent. 'negative' takes them all, and the balance may go below
+// zero until later purchases pay it off. 'freeze' takes at most what is
+// left and freezes the account, as does any dispute, until the dispute is
+// won or support lifts it.
+export const clawbackPolicy: ClawbackPolicy = 'freeze';
+
 export const transformationTypes = {
   restore: {
     type: 'restore',
@@ -188,6 +265,75 @@ export const defaultValues = {
   color: '',
   prompt: '',
   publicId: '',
+  visibility: 'public',
+  tags: [] as string[],
+};
+
+// Credits charged per transformation: `base` plus `perMegapixel` for every
+// megapixel of output, scaled by the user's plan and rounded up.
+export const transformationPricing = {
+  restore: { base: 1, perMegapixel: 0 },
+  removeBackground: { base: 1, perMegapixel: 0.5 },
+  recolor: { base: 1, perMegapixel: 1 },
+  remove: { base: 2, perMegapixel: 1 },
+  fill: { base: 3, perMegapixel: 1.5 },
+};
+
+// Most uploads a single batch transformation can process at once.
+export const maxBatchSize = 10;
+
+// Most tags a single image can have, and longest tag.
+export const maxImageTags = 10;
+export const maxTagLength = 30;
+
+// Most images a single album can hold.
+export const maxAlbumSize = 200;
+
+export const visibilityOptions = {
+  public: {
+    label: 'Public',
+    description: 'Shown to everyone in Recent Edits and search',
+  },
+  unlisted: {
+    label: 'Unlisted',
+    description: 'Only people with the share link can see it',
+  },
+  private: {
+    label: 'Private',
+    description: 'Only you can see it',
+  },
+};
+
+export const transactionStatuses = {
+  paid: { label: 'Paid' },
+  partially_refunded: { label: 'Partially refunded' },
+  refunded: { label: 'Refunded' },
+  disputed: { label: 'Disputed' },
+  dispute_won: { label: 'Dispute won' },
+  dispute_lost: { label: 'Dispute lost' },
+};
+
+export const transactionEvents = {
+  refund: { label: 'Refunded', credits: 'credits taken back' },
+  dispute_opened: { label: 'Disputed', credits: 'credits taken back' },
+  dispute_won: { label: 'Dispute won', credits: 'credits given back' },
+  dispute_lost: { label: 'Dispute lost', credits: 'credits taken back' },
+};
+
+export const imageSortOptions = {
+  newest: { label: 'Newest' },
+  oldest: { label: 'Oldest' },
+  views: { label: 'Most viewed' },
+  likes: { label: 'Most liked' },
 };
 
-export const creditFee = -1;
+// Query parameters that filter or sort the gallery.
+export const imageFilterKeys = [
+  'type',
+  'author',
+  'aspectRatio',
+  'tag',
+  'from',
+  'to',
+  'sort',
+] as const;
@@ -0,0 +1,404 @@
+'use server';
+
+import { auth } from '@clerk/nextjs';
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+
+import { maxAlbumSize } from '@/constants';
+import Album from '../database/models/album.model';
+import Image from '../database/models/image.model';
+import User from '../database/models/user.model';
+import { connectToDatabase } from '../database/mongoose';
+import { markLikedImages } from '../likes';
+import { handleError } from '../utils';
+import {
+  canViewImage,
+  getVisibilityFields,
+  listedImagesFilter,
+} from '../visibility';
+
+const populateAuthor = (query: any) =>
+  query.populate({
+    path: 'author',
+    model: User,
+    select: '_id firstName lastName clerkId',
+  });
+
+// Album images show their author like the gallery does, see `getAllImages`.
+const populateUser = (query: any) =>
+  query.populate({
+    path: 'author',
+    model: User,
+    select: '_id firstName lastName username photo clerkId',
+  });
+
+/**
+ * Finds the signed-in user.
+ *
+ * Throws an error if nobody is signed in.
+ */
+const getCurrentUser = async () => {
+  const { userId } = auth();
+
+  if (!userId) throw new Error('Unauthorized');
+
+  const user = await User.findOne({ clerkId: userId });
+
+  if (!user) throw new Error('User not found');
+
+  return user;
+};
+
+/**
+ * Finds one of the given user's albums.
+ *
+ * Throws an error if the album does not exist or belongs to someone else.
+ */
+const getOwnedAlbum = async (albumId: string, authorId: unknown) => {
+  const album = await Album.findOne({ _id: albumId, author: authorId });
+
+  if (!album) throw new Error('Unauthorized or album not found');
+
+  return album;
+};
+
+// An album never shows more than its images would on their own: listed
+// images, plus the viewer's own.
+const visibleImagesFilter = (viewer: any) => ({
+  $or: [listedImagesFilter, ...(viewer ? [{ author: viewer._id }] : [])],
+});
+
+/**
+ * Creates an empty album for the signed-in user.
+ */
+export async function createAlbum({ album, path }: CreateAlbumParams) {
+  try {
+    await connectToDatabase();
+
+    const author = await getCurrentUser();
+
+    const newAlbum = await Album.create({
+      title: album.title,
+      description: album.description,
+      ...getVisibilityFields(album.visibility ?? 'public'),
+      author: author._id,
+    });
+
+    revalidatePath(path);
+
+    return JSON.parse(JSON.stringify(newAlbum));
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Gets an album with the images the signed-in user may see, in album order.
+ *
+ * Albums follow the same visibility rules as images: unlisted ones also need
+ * their share token, and only the author gets the token back.
+ */
+export async function getAlbumById(albumId: string, shareToken?: string) {
+  try {
+    const { userId } = auth();
+
+    await connectToDatabase();
+
+    const album = await populateAuthor(Album.findById(albumId));
+
+    // Hidden albums are reported as missing, so their ids give nothing away.
+    if (!album || !canViewImage(album, userId, shareToken)) {
+      throw new Error('Album not found');
+    }
+
+    const viewer = userId ? await User.findOne({ clerkId: userId }) : null;
+    const images = await populateUser(
+      Image.find({
+        _id: { $in: album.images },
+        ...visibleImagesFilter(viewer),
+      })
+    ).lean();
+
+    const imagesById = new Map(
+      images.map((image: any) => [image._id.toString(), image])
+    );
+    const orderedImages = await markLikedImages(
+      album.images
+        .map((imageId: any) => imagesById.get(imageId.toString()))
+        .filter(Boolean),
+      viewer?._id
+    );
+
+    const result = JSON.parse(
+      JSON.stringify({
+        ...album.toObject(),
+        images: orderedImages,
+        cover:
+          orderedImages.find((image: any) => image._id.equals(album.cover)) ??
+          orderedImages[0] ??
+          null,
+      })
+    );
+
+    if (album.author.clerkId !== userId) delete result.shareToken;
+
+    return result;
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Gets a user's albums, most recently changed first, each with its cover
+ * image and image count. Without a userId, gets the signed-in user's albums.
+ * Other people only see the user's listed albums, and so does everyone when
+ * `listedOnly` is set, as on the user's public profile.
+ */
+export async function getUserAlbums(userId?: string, listedOnly = false) {
+  try {
+    const { userId: clerkId } = auth();
+
+    await connectToDatabase();
+
+    const viewer = clerkId ? await User.findOne({ clerkId }) : null;
+    const authorId = userId ?? viewer?._id;
+
+    if (!authorId) throw new Error('Unauthorized');
+
+    const isOwner = !listedOnly && !!viewer?._id.equals(authorId);
+
+    const albums = await Album.find({
+      author: authorId,
+      ...(!isOwner && listedImagesFilter),
+    })
+      .sort({ updatedAt: -1 })
+      .lean();
+
+    const covers = await Image.find({
+      _id: {
+        $in: albums.map((album: any) => album.cover ?? album.images[0]),
+      },
+      ...(listedOnly ? listedImagesFilter : visibleImagesFilter(viewer)),
+    }).lean();
+
+    return JSON.parse(
+      JSON.stringify(
+        albums.map(({ images, shareToken, ...album }: any) => ({
+          ...album,
+          ...(isOwner && { shareToken }),
+          imageCount: images.length,
+          cover:
+            covers.find((image: any) =>
+              image._id.equals(album.cover ?? images[0])
+            ) ?? null,
+        }))
+      )
+    );
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Adds an image the signed-in user can see to the end of one of their
+ * albums. Adding an image that is already in the album does nothing.
+ */
+export async function addImageToAlbum({
+  albumId,
+  imageId,
+  path,
+}: AlbumImageParams) {
+  try {
+    await connectToDatabase();
+
+    const author = await getCurrentUser();
+    const album = await getOwnedAlbum(albumId, author._id);
+    const image = await populateAuthor(Image.findById(imageId));
+
+    if (!image || !canViewImage(image, author.clerkId)) {
+      throw new Error('Image not found');
+    }
+
+    if (album.images.some((id: any) => id.equals(image._id))) {
+      return JSON.parse(JSON.stringify(album));
+    }
+
+    // The size check is part of the update, so concurrent adds cannot
+    // overfill the album.
+    const updatedAlbum = await Album.findOneAndUpdate(
+      {
+        _id: album._id,
+        images: { $ne: image._id },
+        [`images.${maxAlbumSize - 1}`]: { $exists: false },
+      },
+      { $push: { images: image._id }, $set: { updatedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!updatedAlbum) {
+      throw new Error(`Albums can hold at most ${maxAlbumSize} images`);
+    }
+
+    revalidatePath(path);
+    revalidatePath(`/albums/${album._id}`);
+
+    return JSON.parse(JSON.stringify(updatedAlbum));
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Takes an image out of one of the signed-in user's albums. The image
+ * itself is kept.
+ */
+export async function removeImageFromAlbum({
+  albumId,
+  imageId,
+  path,
+}: AlbumImageParams) {
+  try {
+    await connectToDatabase();
+
+    const author = await getCurrentUser();
+    const album = await getOwnedAlbum(albumId, author._id);
+
+    const updatedAlbum = await Album.findByIdAndUpdate(
+      album._id,
+      {
+        $pull: { images: imageId },
+        $set: {
+          updatedAt: new Date(),
+          ...(album.cover?.equals(imageId) && { cover: null }),
+        },
+      },
+      { new: true }
+    );
+
+    revalidatePath(path);
+
+    return JSON.parse(JSON.stringify(updatedAlbum));
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Moves an image one place within one of the signed-in user's albums.
+ *
+ * Throws an error if the album changed since it was read, rather than
+ * overwriting that change.
+ */
+export async function moveAlbumImage({
+  albumId,
+  imageId,
+  direction,
+  path,
+}: MoveAlbumImageParams) {
+  try {
+    await connectToDatabase();
+
+    const author = await getCurrentUser();
+    const album = await getOwnedAlbum(albumId, author._id);
+
+    const images = [...album.images];
+    const from = images.findIndex((id: any) => id.equals(imageId));
+    const to = from + direction;
+
+    if (from === -1) throw new Error('Image not in album');
+    if (to < 0 || to >= images.length) {
+      return JSON.parse(JSON.stringify(album));
+    }
+
+    [images[from], images[to]] = [images[to], images[from]];
+
+    const updatedAlbum = await Album.findOneAndUpdate(
+      { _id: album._id, images: album.images },
+      { $set: { images, updatedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!updatedAlbum) throw new Error('Album changed, please try again');
+
+    revalidatePath(path);
+
+    return JSON.parse(JSON.stringify(updatedAlbum));
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Makes an image of one of the signed-in user's albums its cover.
+ */
+export async function setAlbumCover({
+  albumId,
+  imageId,
+  path,
+}: AlbumImageParams) {
+  try {
+    await connectToDatabase();
+
+    const author = await getCurrentUser();
+
+    const updatedAlbum = await Album.findOneAndUpdate(
+      { _id: albumId, author: author._id, images: imageId },
+      { $set: { cover: imageId, updatedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!updatedAlbum) throw new Error('Unauthorized or image not in album');
+
+    revalidatePath(path);
+
+    return JSON.parse(JSON.stringify(updatedAlbum));
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Changes who can see one of the signed-in user's albums.
+ */
+export async function updateAlbumVisibility({
+  albumId,
+  visibility,
+  path,
+}: UpdateAlbumVisibilityParams) {
+  try {
+    await connectToDatabase();
+
+    const author = await getCurrentUser();
+    const album = await getOwnedAlbum(albumId, author._id);
+
+    const updatedAlbum = await Album.findByIdAndUpdate(
+      album._id,
+      getVisibilityFields(visibility, album.shareToken),
+      { new: true }
+    );
+
+    revalidatePath(path);
+
+    return JSON.parse(JSON.stringify(updatedAlbum));
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Deletes one of the signed-in user's albums. Its images are kept.
+ */
+export async function deleteAlbum(albumId: string) {
+  try {
+    await connectToDatabase();
+
+    const author = await getCurrentUser();
+    const album = await getOwnedAlbum(albumId, author._id);
+
+    await Album.deleteOne({ _id: album._id });
+  } catch (error) {
+    handleError(error);
+  }
+
+  redirect('/profile');
+}
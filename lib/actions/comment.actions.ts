@@ -0,0 +1,349 @@
+'use server';
+
+import { auth } from '@clerk/nextjs';
+import { revalidatePath } from 'next/cache';
+
+import Comment from '../database/models/comment.model';
+import Image from '../database/models/image.model';
+import User from '../database/models/user.model';
+import { connectToDatabase } from '../database/mongoose';
+import { paginate } from '../pagination';
+import { handleError, splitMentions } from '../utils';
+import { canViewImage } from '../visibility';
+
+// Most users a single comment can mention.
+const MAX_MENTIONS = 10;
+
+// Only what a comment shows of its author goes to the client.
+const populateComment = (query: any) =>
+  query.populate([
+    {
+      path: 'author',
+      model: User,
+      select: '_id firstName lastName username photo',
+    },
+    { path: 'mentions.user', model: User, select: '_id username' },
+  ]);
+
+/**
+ * Finds the signed-in user.
+ *
+ * Throws an error if nobody is signed in.
+ */
+const getCurrentUser = async () => {
+  const { userId } = auth();
+
+  if (!userId) throw new Error('Unauthorized');
+
+  const user = await User.findOne({ clerkId: userId });
+
+  if (!user) throw new Error('User not found');
+
+  return user;
+};
+
+/**
+ * Finds an image the user with the given clerkId can see.
+ *
+ * Throws an error if it does not exist or is hidden from them.
+ */
+const getVisibleImage = async (
+  imageId: string,
+  clerkId?: string | null,
+  shareToken?: string
+) => {
+  const image = await Image.findById(imageId).populate({
+    path: 'author',
+    model: User,
+    select: '_id clerkId',
+  });
+
+  if (!image || !canViewImage(image, clerkId, shareToken)) {
+    throw new Error('Image not found');
+  }
+
+  return image;
+};
+
+/**
+ * Resolves the `@username` mentions in a comment to existing users.
+ * Unknown usernames stay plain text.
+ */
+const resolveMentions = async (body: string) => {
+  const usernames = Array.from(
+    new Set(
+      splitMentions(body)
+        .map((part) => part.username)
+        .filter(Boolean)
+    )
+  ).slice(0, MAX_MENTIONS);
+
+  if (usernames.length === 0) return [];
+
+  const users = await User.find({ username: { $in: usernames } }, 'username');
+
+  return users.map((user) => ({ username: user.username, user: user._id }));
+};
+
+/**
+ * Trims a comment body.
+ *
+ * Throws an error if nothing is left.
+ */
+const getCommentBody = (body: string) => {
+  const trimmedBody = body.trim();
+
+  if (!trimmedBody) throw new Error('Comment is empty');
+
+  return trimmedBody;
+};
+
+/**
+ * Prepares a plain comment for the client, marking whether the user with the
+ * given id wrote it. Deleted comments keep their place in the thread, but
+ * nothing else.
+ */
+const toClientComment = (comment: any, viewerId?: any) =>
+  comment.deletedAt
+    ? { ...comment, author: null, body: '', mentions: [], isAuthor: false }
+    : {
+        ...comment,
+        isAuthor: !!viewerId && !!comment.author?._id.equals(viewerId),
+      };
+
+/**
+ * Deletes the deleted ancestors of a comment that was just removed, as long
+ * as they are left without replies, so no empty thread stays behind.
+ *
+ * Returns the ids of the removed ancestors.
+ */
+const removeEmptyAncestors = async (comment: any) => {
+  const removedIds: string[] = [];
+  let parentId = comment.parent;
+
+  while (parentId) {
+    const parent = await Comment.findOne({
+      _id: parentId,
+      deletedAt: { $ne: null },
+    });
+
+    if (!parent || (await Comment.exists({ parent: parent._id }))) break;
+
+    await Comment.deleteOne({ _id: parent._id });
+    removedIds.push(parent._id.toString());
+    parentId = parent.parent;
+  }
+
+  return removedIds;
+};
+
+/**
+ * Gets a page of an image's comment threads, newest first, each with all of
+ * its replies. Comments come back as one flat list, oldest replies first;
+ * `parent` and `root` tie them into threads.
+ */
+export async function getImageComments({
+  imageId,
+  shareToken,
+  cursor,
+  limit = 10,
+}: GetImageCommentsParams) {
+  try {
+    const { userId } = auth();
+
+    await connectToDatabase();
+
+    const image = await getVisibleImage(imageId, userId, shareToken);
+    const viewer = userId
+      ? await User.findOne({ clerkId: userId }, '_id')
+      : null;
+    const query = { image: image._id, root: null };
+
+    const [page, totalComments] = await Promise.all([
+      paginate({
+        sort: { createdAt: -1 },
+        cursor,
+        limit,
+        run: (keyset, pageSort, skip, pageLimit) =>
+          populateComment(Comment.find({ ...query, $and: [keyset] }))
+            .sort(pageSort)
+            .skip(skip)
+            .limit(pageLimit)
+            .lean(),
+      }),
+      Comment.countDocuments({ image: image._id, deletedAt: null }),
+    ]);
+
+    const replies = await populateComment(
+      Comment.find({ root: { $in: page.data.map((comment) => comment._id) } })
+    )
+      .sort({ createdAt: 1 })
+      .lean();
+
+    return {
+      data: JSON.parse(
+        JSON.stringify(
+          [...page.data, ...replies].map((comment) =>
+            toClientComment(comment, viewer?._id)
+          )
+        )
+      ),
+      nextCursor: page.nextCursor,
+      totalComments,
+    };
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Comments on an image the signed-in user can see, or replies to one of its
+ * comments.
+ */
+export async function addComment({
+  imageId,
+  parentId,
+  body,
+  shareToken,
+  path,
+}: AddCommentParams) {
+  try {
+    const commentBody = getCommentBody(body);
+
+    await connectToDatabase();
+
+    const author = await getCurrentUser();
+    const image = await getVisibleImage(imageId, author.clerkId, shareToken);
+
+    const parent = parentId
+      ? await Comment.findOne({ _id: parentId, image: image._id })
+      : null;
+
+    if (parentId && (!parent || parent.deletedAt)) {
+      throw new Error('Comment not found');
+    }
+
+    const newComment = await Comment.create({
+      image: image._id,
+      author: author._id,
+      parent: parent?._id ?? null,
+      root: parent ? (parent.root ?? parent._id) : null,
+      body: commentBody,
+      mentions: await resolveMentions(commentBody),
+    });
+
+    revalidatePath(path);
+
+    return JSON.parse(
+      JSON.stringify(
+        toClientComment(
+          await populateComment(Comment.findById(newComment._id)).lean(),
+          author._id
+        )
+      )
+    );
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Edits one of the signed-in user's comments.
+ */
+export async function updateComment({
+  commentId,
+  body,
+  path,
+}: UpdateCommentParams) {
+  try {
+    const commentBody = getCommentBody(body);
+
+    await connectToDatabase();
+
+    const author = await getCurrentUser();
+
+    const updatedComment = await populateComment(
+      Comment.findOneAndUpdate(
+        { _id: commentId, author: author._id, deletedAt: null },
+        {
+          body: commentBody,
+          mentions: await resolveMentions(commentBody),
+          editedAt: new Date(),
+        },
+        { new: true, runValidators: true }
+      )
+    ).lean();
+
+    if (!updatedComment) throw new Error('Unauthorized or comment not found');
+
+    revalidatePath(path);
+
+    return JSON.parse(
+      JSON.stringify(toClientComment(updatedComment, author._id))
+    );
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Deletes a comment. Its author can delete it, and so can the author of the
+ * image, to moderate the discussion. A comment with replies is only emptied,
+ * so its thread stays readable; deleted comments it leaves without replies
+ * are removed with it.
+ */
+export async function deleteComment({ commentId, path }: DeleteCommentParams) {
+  try {
+    await connectToDatabase();
+
+    const user = await getCurrentUser();
+    const comment = await Comment.findById(commentId).populate({
+      path: 'image',
+      model: Image,
+      select: '_id author',
+    });
+
+    if (
+      !comment ||
+      comment.deletedAt ||
+      !(
+        comment.author?.equals(user._id) ||
+        comment.image?.author?.equals(user._id)
+      )
+    ) {
+      throw new Error('Unauthorized or comment not found');
+    }
+
+    const hasReplies = await Comment.exists({ parent: comment._id });
+
+    const deletedComment = hasReplies
+      ? await Comment.findByIdAndUpdate(
+          comment._id,
+          { deletedAt: new Date(), body: '', mentions: [] },
+          { new: true }
+        ).lean()
+      : null;
+
+    const removedCommentIds: string[] = [];
+
+    if (!hasReplies) {
+      await Comment.deleteOne({ _id: comment._id });
+      removedCommentIds.push(
+        comment._id.toString(),
+        ...(await removeEmptyAncestors(comment))
+      );
+    }
+
+    revalidatePath(path);
+
+    // A comment that was only emptied comes back to replace the old one.
+    return {
+      deletedComment: deletedComment
+        ? JSON.parse(JSON.stringify(toClientComment(deletedComment)))
+        : null,
+      removedCommentIds,
+    };
+  } catch (error) {
+    handleError(error);
+  }
+}
@@ -1,38 +1,547 @@
 'use server';
 
+import { auth } from '@clerk/nextjs';
+import { createHash } from 'crypto';
 import { revalidatePath } from 'next/cache';
+import { headers } from 'next/headers';
+import { Types, isValidObjectId } from 'mongoose';
 import { connectToDatabase } from '../database/mongoose';
-import { handleError } from '../utils';
+import {
+  deepMergeObjects,
+  getImageSize,
+  getAuthorName,
+  getTransformationCost,
+  getTransformationSteps,
+  handleError,
+  normalizeTag,
+  normalizeTags,
+} from '../utils';
+import { deductBatchCredits, deductCredits, refundCharge } from '../credits';
+import { getImageProvider } from '../providers';
+import {
+  aspectRatioOptions,
+  maxBatchSize,
+  transformationTypes,
+} from '@/constants';
 import User from '../database/models/user.model';
 import Image from '../database/models/image.model';
+import CreditLedgerEntry from '../database/models/creditLedgerEntry.model';
+import TransformationJob from '../database/models/transformationJob.model';
+import ImageRevision from '../database/models/imageRevision.model';
+import Album from '../database/models/album.model';
+import Like from '../database/models/like.model';
+import Comment from '../database/models/comment.model';
+import View from '../database/models/view.model';
+import { processTransformationJob } from '../jobs';
+import { markLikedImages } from '../likes';
+import { paginate } from '../pagination';
+import { snapshotImage } from '../revisions';
+import { canTransformAsset, isAssetInUse, recordUpload } from '../uploads';
+import {
+  canViewImage,
+  getVisibilityFields,
+  listedImagesFilter,
+} from '../visibility';
 import { redirect } from 'next/navigation';
 
-import { v2 as cloudinary } from 'cloudinary';
+// Longer queries are cut off rather than sent to the text index.
+const MAX_SEARCH_LENGTH = 100;
+
+// Gallery totals above this are shown as approximate.
+const MAX_EXACT_TOTAL = 1000;
+
+// Most tags suggested while typing one.
+const MAX_TAG_SUGGESTIONS = 8;
+
+// Most ancestors and remixes shown in an image's remix lineage.
+const MAX_LINEAGE_DEPTH = 5;
+const MAX_REMIXES = 10;
 
 const populateUser = (query: any) =>
   query.populate({
     path: 'author',
     model: User,
-    select: '_id firstName lastName clerkId',
-    cloudinary,
+    select: '_id firstName lastName username photo clerkId',
   });
 
 /**
- * Adds a new image to the database.
+ * Keeps only the user-editable options of a transformation config, so a
+ * client cannot smuggle in extra Cloudinary parameters it was not charged for.
+ */
+const pickTransformationOptions = (
+  type: TransformationTypeKey,
+  config: Transformations | null
+): Transformations => {
+  if (type === 'remove') {
+    return { remove: { prompt: String(config?.remove?.prompt ?? '') } };
+  }
+
+  if (type === 'recolor') {
+    return {
+      recolor: {
+        prompt: String(config?.recolor?.prompt ?? ''),
+        to: String(config?.recolor?.to ?? ''),
+      },
+    };
+  }
+
+  return {};
+};
+
+/**
+ * Resolves the sanitized config for a transformation type.
+ *
+ * Throws an error if the type is unknown.
+ */
+const getTransformationConfig = (
+  type: TransformationTypeKey,
+  config: Transformations | null
+): Transformations => {
+  const transformationType = transformationTypes[type];
+
+  if (!transformationType) throw new Error('Unknown transformation type');
+
+  return deepMergeObjects(
+    pickTransformationOptions(type, config),
+    transformationType.config
+  );
+};
+
+/**
+ * Prices a transformation of an uploaded asset from its real dimensions and
+ * the buyer's plan, and describes the output the job has to generate.
+ */
+const priceTransformation = async (
+  type: TransformationTypeKey,
+  config: Transformations,
+  publicId: string,
+  aspectRatio: string | undefined,
+  planId: number
+) => {
+  const { width, height } = await getImageProvider().getAsset(publicId);
+  const asset = { width, height, aspectRatio };
+
+  return {
+    cost: getTransformationCost(type, asset, planId),
+    output: {
+      publicId,
+      width: getImageSize(type, asset, 'width'),
+      height: getImageSize(type, asset, 'height'),
+      config,
+    },
+  };
+};
+
+/**
+ * Records the signed-in user as the uploader of an asset the Cloudinary
+ * widget uploaded from their browser, so they can transform it. Uploads
+ * through `/api/images` are recorded by the route itself.
+ *
+ * Throws an error if the asset does not exist or belongs to someone else.
+ */
+export async function claimUpload(publicId: string) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) throw new Error('Unauthorized');
+
+    await connectToDatabase();
+
+    const user = await User.findOne({ clerkId: userId });
+
+    if (!user) throw new Error('User not found');
+
+    await getImageProvider().getAsset(publicId);
+    await recordUpload(publicId, user._id.toString());
+
+    return { publicId };
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Applies a transformation on behalf of the signed-in user.
+ *
+ * Only the caller's own uploads and derived assets can be transformed, and
+ * the uploads of images the caller may view, e.g. to remix them. Prices the
+ * transformation from the asset's real dimensions and the caller's plan,
+ * charges it to the caller's own balance only if it covers the cost, and
+ * queues a job that creates the derived asset. The client polls
+ * `/api/jobs/[id]` for the result.
+ */
+export async function applyTransformation({
+  type,
+  config,
+  publicId,
+  aspectRatio,
+  shareToken,
+}: ApplyTransformationParams) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) throw new Error('Unauthorized');
+
+    const transformationConfig = getTransformationConfig(type, config);
+
+    await connectToDatabase();
+
+    const buyer = await User.findOne({ clerkId: userId });
+
+    if (!buyer) throw new Error('User not found');
+
+    if (!(await canTransformAsset(publicId, buyer, shareToken))) {
+      throw new Error('Image not found');
+    }
+
+    const { cost, output } = await priceTransformation(
+      type,
+      transformationConfig,
+      publicId,
+      aspectRatio,
+      buyer.planId
+    );
+
+    const { user, chargeId } = await deductCredits(userId, cost, {
+      reason: 'transformation',
+      details: { ...output, type },
+    });
+
+    const job = await TransformationJob.create({
+      ...output,
+      aspectRatio,
+      user: buyer._id,
+      chargeId,
+      transformationType: type,
+    }).catch(async (error) => {
+      await refundCharge(chargeId, buyer._id.toString());
+      throw error;
+    });
+
+    // Not awaited: the job runs in the background while the client polls.
+    // If this process goes away first, the next poll resumes the job.
+    processTransformationJob(job._id.toString()).catch((error) =>
+      console.error(error)
+    );
+
+    return {
+      jobId: job._id.toString() as string,
+      config: transformationConfig,
+      cost,
+      chargeId,
+      creditBalance: user.creditBalance as number,
+    };
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Applies the same transformation to several uploads of the signed-in user.
+ *
+ * The uploads are checked like in `applyTransformation`. The whole batch is
+ * priced and checked against the caller's balance before anything is
+ * charged. Every upload then gets its own charge and job, so a failed
+ * upload is refunded on its own. Jobs run one after another in the
+ * background; the client polls each of them.
+ */
+export async function applyBatchTransformation({
+  type,
+  config,
+  publicIds,
+  aspectRatio,
+}: ApplyBatchTransformationParams) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) throw new Error('Unauthorized');
+
+    const uniquePublicIds = Array.from(new Set(publicIds));
+
+    if (uniquePublicIds.length === 0 || uniquePublicIds.length > maxBatchSize) {
+      throw new Error(`A batch must contain 1 to ${maxBatchSize} images`);
+    }
+
+    const transformationConfig = getTransformationConfig(type, config);
+
+    await connectToDatabase();
+
+    const buyer = await User.findOne({ clerkId: userId });
+
+    if (!buyer) throw new Error('User not found');
+
+    for (const publicId of uniquePublicIds) {
+      if (!(await canTransformAsset(publicId, buyer))) {
+        throw new Error('Image not found');
+      }
+    }
+
+    const items = await Promise.all(
+      uniquePublicIds.map((publicId) =>
+        priceTransformation(
+          type,
+          transformationConfig,
+          publicId,
+          aspectRatio,
+          buyer.planId
+        )
+      )
+    );
+
+    const { user, chargeIds } = await deductBatchCredits(
+      userId,
+      items.map(({ cost, output }) => ({
+        fee: cost,
+        change: {
+          reason: 'transformation',
+          details: { ...output, type },
+        },
+      }))
+    );
+
+    const jobs = await TransformationJob.insertMany(
+      items.map(({ output }, index) => ({
+        ...output,
+        aspectRatio,
+        user: buyer._id,
+        chargeId: chargeIds[index],
+        transformationType: type,
+      }))
+    ).catch(async (error) => {
+      for (const chargeId of chargeIds) {
+        await refundCharge(chargeId, buyer._id.toString());
+      }
+      throw error;
+    });
+
+    // Not awaited: the jobs run in the background while the client polls.
+    // If this process goes away first, the next polls resume them.
+    (async () => {
+      for (const job of jobs) {
+        await processTransformationJob(job._id.toString());
+      }
+    })().catch((error) => console.error(error));
+
+    return {
+      items: jobs.map((job, index) => ({
+        publicId: job.publicId as string,
+        jobId: job._id.toString() as string,
+        cost: items[index].cost,
+        chargeId: chargeIds[index],
+      })),
+      config: transformationConfig,
+      cost: items.reduce((sum, { cost }) => sum + cost, 0),
+      creditBalance: user.creditBalance as number,
+    };
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Handles a client report that a charged transformation failed to render.
+ *
+ * The report is not trusted: the derived image is requested again from the
+ * details stored on the charge. Only a real failure is refunded; an asset
+ * that is still being generated is not a failure. Charges made for a job
+ * are left to the job.
+ *
+ * Throws an error if the charge's job already succeeded.
+ */
+export async function reportTransformationFailure(chargeId: string) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) throw new Error('Unauthorized');
+
+    await connectToDatabase();
+
+    const user = await User.findOne({ clerkId: userId });
+
+    if (!user) throw new Error('User not found');
+
+    const charge = await CreditLedgerEntry.findOne({
+      _id: chargeId,
+      user: user._id,
+      reason: 'transformation',
+    });
+
+    if (!charge?.details) throw new Error('Charge not found');
+
+    // A charge with a job is settled by it: a succeeded job saved the asset
+    // that was paid for, and a failed one was already refunded.
+    const job = await TransformationJob.findOne({ chargeId, user: user._id });
+
+    if (job?.status === 'succeeded') {
+      throw new Error('Transformation already succeeded');
+    }
+
+    if (job) {
+      const status: TransformationStatus =
+        job.status === 'failed' ? 'failed' : 'processing';
+
+      return { refunded: false, status };
+    }
+
+    const { publicId, width, height, config } = charge.details;
+
+    const status = await getImageProvider().probeTransformation({
+      publicId,
+      width,
+      height,
+      config,
+    });
+
+    if (status !== 'failed') return { refunded: false, status };
+
+    const refund = await refundCharge(chargeId, user._id.toString());
+
+    return {
+      refunded: true,
+      status,
+      amount: refund.amount,
+      creditBalance: refund.user.creditBalance as number,
+    };
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Rebuilds an image's transformation pipeline from finished jobs, so a saved
+ * image points at generated files rather than lazy transformation URLs.
+ *
+ * `jobIds` lists one entry per step; an empty entry keeps the image's stored
+ * step at that position. Each step must have been generated from the output
+ * of the step before it, starting with the uploaded image.
+ *
+ * Throws an error if the pipeline has no finished step, so every image has
+ * a paid-for derived asset.
+ */
+const getPipeline = async (
+  jobIds: string[] | undefined,
+  userId: string,
+  publicId: string,
+  existingSteps: TransformationStep[] = []
+) => {
+  const unchanged =
+    !jobIds ||
+    (jobIds.length === existingSteps.length && jobIds.every((jobId) => !jobId));
+
+  if (unchanged) {
+    // Kept steps must still start from the image they were generated from.
+    if (
+      existingSteps.length === 0 ||
+      existingSteps[0].sourcePublicId !== publicId
+    ) {
+      throw new Error('Transformation not found');
+    }
+
+    return {};
+  }
+
+  const steps: TransformationStep[] = [];
+  let source = publicId;
+
+  for (let index = 0; index < jobIds.length; index++) {
+    const jobId = jobIds[index];
+    let step = existingSteps[index];
+
+    if (jobId) {
+      const job = await TransformationJob.findOne({
+        _id: jobId,
+        user: userId,
+        status: 'succeeded',
+      });
+
+      if (!job) throw new Error('Transformation not found');
+
+      step = {
+        type: job.transformationType,
+        aspectRatio: job.aspectRatio,
+        prompt: job.config?.remove?.prompt ?? job.config?.recolor?.prompt,
+        color: job.config?.recolor?.to,
+        config: job.config,
+        sourcePublicId: job.publicId,
+        derivedPublicId: job.derivedPublicId,
+        derivedURL: job.derivedURL,
+      };
+    }
+
+    if (!step || step.sourcePublicId !== source) {
+      throw new Error('Transformation steps are out of order');
+    }
+
+    steps.push(step);
+    source = step.derivedPublicId!;
+  }
+
+  if (steps.length === 0) throw new Error('Transformation not found');
+
+  const lastStep = steps[steps.length - 1];
+
+  return {
+    config: steps,
+    derivedPublicId: lastStep?.derivedPublicId,
+    transformationUrl: lastStep?.derivedURL,
+  };
+};
+
+/**
+ * Picks the fields of an image a client may set. Its transformation comes
+ * from finished jobs instead, see `getPipeline`, and its view and like
+ * counts only change as views and likes are recorded.
+ */
+const pickImageFields = (image: AddImageParams['image']) => ({
+  title: image.title,
+  transformationType: image.transformationType,
+  publicId: image.publicId,
+  width: image.width,
+  height: image.height,
+  secureURL: image.secureURL,
+  aspectRatio: image.aspectRatio,
+  prompt: image.prompt,
+  color: image.color,
+});
+
+/**
+ * Adds a new image of the signed-in user to the database, from the
+ * transformation jobs they ran on it. A remix must name an image its author
+ * can see.
  */
-export async function addImage({ image, userId, path }: AddImageParams) {
+export async function addImage({ image, userId, path, remix }: AddImageParams) {
   try {
+    const { userId: clerkId } = auth();
+
+    if (!clerkId) throw new Error('Unauthorized');
+
     await connectToDatabase();
 
-    const author = await User.findById(userId);
+    const author = await User.findOne({ clerkId });
 
-    if (!author) {
+    if (!author || author._id.toHexString() !== userId) {
       throw new Error('User not found');
     }
 
+    const parent = remix
+      ? await populateUser(Image.findById(remix.imageId))
+      : null;
+
+    if (
+      remix &&
+      (!parent || !canViewImage(parent, author.clerkId, remix.shareToken))
+    ) {
+      throw new Error('Remixed image not found');
+    }
+
     const newImage = await Image.create({
-      ...image,
+      ...pickImageFields(image),
+      ...(await getPipeline(image.jobIds ?? [], author._id, image.publicId)),
+      ...getVisibilityFields(image.visibility ?? 'public'),
+      tags: normalizeTags(image.tags),
+      remixOf: parent?._id ?? null,
       author: author._id,
+      authorName: getAuthorName(author),
     });
 
     revalidatePath(path);
@@ -44,21 +553,48 @@ export async function addImage({ image, userId, path }: AddImageParams) {
 }
 
 /**
- * Updates an existing image in the database.
+ * Updates one of the signed-in user's images in the database, keeping its
+ * previous state as an ImageRevision. A changed transformation must come
+ * from finished jobs.
  */
 export async function updateImage({ image, userId, path }: UpdateImageParams) {
   try {
+    const { userId: clerkId } = auth();
+
+    if (!clerkId) throw new Error('Unauthorized');
+
     await connectToDatabase();
 
+    const author = await User.findOne({ clerkId });
     const imageToUpdate = await Image.findById(image._id);
 
-    if (!imageToUpdate || imageToUpdate.author.toHexString() !== userId) {
+    if (
+      !author ||
+      !imageToUpdate ||
+      !imageToUpdate.author.equals(author._id) ||
+      author._id.toHexString() !== userId
+    ) {
       throw new Error('Unauthorized or image not found');
     }
 
+    await snapshotImage(imageToUpdate);
+
     const updatedImage = await Image.findByIdAndUpdate(
       imageToUpdate._id,
-      image,
+      {
+        ...pickImageFields(image),
+        ...(await getPipeline(
+          image.jobIds,
+          author._id,
+          image.publicId,
+          getTransformationSteps(imageToUpdate)
+        )),
+        ...getVisibilityFields(
+          image.visibility ?? imageToUpdate.visibility ?? 'public',
+          imageToUpdate.shareToken
+        ),
+        tags: normalizeTags(image.tags ?? imageToUpdate.tags),
+      },
       { new: true }
     );
 
@@ -71,13 +607,86 @@ export async function updateImage({ image, userId, path }: UpdateImageParams) {
 }
 
 /**
- * Deletes an image from the database.
+ * Changes who can see one of the signed-in user's images.
+ */
+export async function updateImageVisibility({
+  imageId,
+  visibility,
+  path,
+}: UpdateImageVisibilityParams) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) throw new Error('Unauthorized');
+
+    await connectToDatabase();
+
+    const author = await User.findOne({ clerkId: userId });
+    const image = await Image.findById(imageId);
+
+    if (!author || !image || !image.author.equals(author._id)) {
+      throw new Error('Unauthorized or image not found');
+    }
+
+    const updatedImage = await Image.findByIdAndUpdate(
+      image._id,
+      getVisibilityFields(visibility, image.shareToken),
+      { new: true }
+    );
+
+    revalidatePath(path);
+
+    return JSON.parse(JSON.stringify(updatedImage));
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Deletes one of the signed-in user's images with its revisions, likes and
+ * comments from the database, takes it out of any album, and deletes its
+ * uploaded and derived assets once no other image or revision uses them.
  */
 export async function deleteImage(imageId: string) {
   try {
+    const { userId } = auth();
+
+    if (!userId) throw new Error('Unauthorized');
+
     await connectToDatabase();
 
-    await Image.findByIdAndDelete(imageId);
+    const image = await populateUser(Image.findById(imageId));
+
+    if (!image || image.author?.clerkId !== userId) {
+      throw new Error('Unauthorized or image not found');
+    }
+
+    const revisions = await ImageRevision.find({ image: image._id });
+    const publicIds = new Set<string>();
+
+    [image, ...revisions].forEach((version) => {
+      publicIds.add(version.publicId);
+
+      getTransformationSteps(version).forEach((step) => {
+        if (step.derivedPublicId) publicIds.add(step.derivedPublicId);
+      });
+    });
+
+    await Image.deleteOne({ _id: image._id });
+    await ImageRevision.deleteMany({ image: image._id });
+    await Album.updateMany(
+      { images: image._id },
+      { $pull: { images: image._id } }
+    );
+    await Album.updateMany({ cover: image._id }, { cover: null });
+    await Like.deleteMany({ image: image._id });
+    await Comment.deleteMany({ image: image._id });
+
+    for (const publicId of Array.from(publicIds)) {
+      if (!(await isAssetInUse(publicId))) {
+        await getImageProvider().delete(publicId);
+      }
+    }
   } catch (error) {
     handleError(error);
   } finally {
@@ -86,80 +695,358 @@ export async function deleteImage(imageId: string) {
 }
 
 /**
- * Gets an image by ID from the database.
+ * Gets an image by ID from the database, if the signed-in user may see it.
+ *
+ * Unlisted images also need their share token. Only the author gets the
+ * token back.
  */
-export async function getImageById(imageId: string) {
+export async function getImageById(imageId: string, shareToken?: string) {
   try {
+    const { userId } = auth();
+
     await connectToDatabase();
 
     const image = await populateUser(Image.findById(imageId));
 
-    if (!image) throw new Error('Image not found');
+    // Hidden images are reported as missing, so their ids give nothing away.
+    if (!image || !canViewImage(image, userId, shareToken)) {
+      throw new Error('Image not found');
+    }
 
-    return JSON.parse(JSON.stringify(image));
+    const viewer = userId ? await User.findOne({ clerkId: userId }) : null;
+    const [result] = JSON.parse(
+      JSON.stringify(await markLikedImages([image.toObject()], viewer?._id))
+    );
+
+    if (image.author.clerkId !== userId) delete result.shareToken;
+
+    return result;
   } catch (error) {
     handleError(error);
   }
 }
 
 /**
- * Gets a paginated list of all images.
+ * Gets the images an image was remixed from, nearest first, and the latest
+ * remixes made from it. Only images the signed-in user can see are shown:
+ * the chain of ancestors stops at the first one that is hidden or deleted.
  */
-export async function getAllImages({
-  limit = 9,
-  page = 1,
-  searchQuery = '',
-}: {
-  limit?: number;
-  page: number;
-  searchQuery?: string;
-}) {
+export async function getRemixLineage(imageId: string) {
   try {
+    const { userId } = auth();
+
     await connectToDatabase();
 
-    cloudinary.config({
-      cloud_name: process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME,
-      api_key: process.env.CLOUDINARY_API_KEY,
-      api_secret: process.env.CLOUDINARY_API_SECRET,
-      secure: true,
-    });
+    const viewer = userId ? await User.findOne({ clerkId: userId }) : null;
+    const ancestors: { _id: string; title: string }[] = [];
+    let image = await Image.findById(imageId, 'remixOf');
 
-    let expression = 'folder=imaginify';
+    while (image?.remixOf && ancestors.length < MAX_LINEAGE_DEPTH) {
+      image = await populateUser(Image.findById(image.remixOf));
 
-    if (searchQuery) {
-      expression += ` AND ${searchQuery}`;
+      if (!image || !canViewImage(image, userId)) break;
+
+      ancestors.push({ _id: image._id, title: image.title });
     }
 
-    const { resources } = await cloudinary.search
-      .expression(expression)
-      .execute();
+    const remixesQuery = {
+      remixOf: imageId,
+      $or: [listedImagesFilter, ...(viewer ? [{ author: viewer._id }] : [])],
+    };
+
+    const [remixes, remixCount] = await Promise.all([
+      Image.find(remixesQuery, '_id title')
+        .sort({ createdAt: -1 })
+        .limit(MAX_REMIXES),
+      Image.countDocuments(remixesQuery),
+    ]);
+
+    return JSON.parse(JSON.stringify({ ancestors, remixes, remixCount }));
+  } catch (error) {
+    handleError(error);
+  }
+}
 
-    const resourceIds = resources.map((resource: any) => resource.public_id);
+/**
+ * Counts a view of an image by anyone who may see it other than its
+ * author, at most once per viewer in the view window. Signed-out viewers
+ * are told apart by a hash of their IP address.
+ */
+export async function recordImageView(imageId: string, shareToken?: string) {
+  try {
+    const { userId } = auth();
 
-    let query = {};
+    await connectToDatabase();
 
-    if (searchQuery) {
-      query = {
-        publicId: {
-          $in: resourceIds,
-        },
-      };
+    const image = await populateUser(Image.findById(imageId));
+
+    if (!image || !canViewImage(image, userId, shareToken)) {
+      throw new Error('Image not found');
     }
 
-    const skipAmount = (Number(page) - 1) * limit;
+    if (userId && image.author?.clerkId === userId) return;
+
+    const viewer = userId
+      ? await User.findOne({ clerkId: userId }, '_id')
+      : null;
+    const address = headers().get('x-forwarded-for')?.split(',')[0].trim();
+    const viewerKey = viewer
+      ? viewer._id.toString()
+      : address &&
+        `ip:${createHash('sha256').update(address).digest('base64url')}`;
 
-    const images = await populateUser(Image.find(query))
-      .sort({ updatedAt: -1 })
-      .skip(skipAmount)
-      .limit(limit);
+    if (!viewerKey) return;
 
-    const totalImages = await Image.find(query).countDocuments();
-    const savedImages = await Image.find().countDocuments();
+    const { upsertedCount } = await View.updateOne(
+      { image: image._id, viewer: viewerKey },
+      { $setOnInsert: { createdAt: new Date() } },
+      { upsert: true }
+    );
+
+    if (upsertedCount) {
+      await Image.updateOne({ _id: image._id }, { $inc: { viewCount: 1 } });
+    }
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Suggests existing tags that start with what the user typed, most used
+ * first. Only tags of images the signed-in user can see are suggested.
+ */
+export async function getTagSuggestions(prefix: string) {
+  try {
+    const { userId } = auth();
+    const tag = normalizeTag(prefix);
+
+    if (!tag) return [];
+
+    await connectToDatabase();
+
+    const viewer = userId ? await User.findOne({ clerkId: userId }) : null;
+
+    // Normalized tags hold only letters, digits and dashes, so the prefix
+    // needs no escaping.
+    const startsWithTag = new RegExp(`^${tag}`);
+
+    const groups = await Image.aggregate([
+      {
+        $match: {
+          tags: startsWithTag,
+          $or: [
+            listedImagesFilter,
+            ...(viewer ? [{ author: viewer._id }] : []),
+          ],
+        },
+      },
+      { $unwind: '$tags' },
+      { $match: { tags: startsWithTag } },
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: MAX_TAG_SUGGESTIONS },
+    ]);
+
+    return groups.map((group) => group._id as string);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+const IMAGE_SORTS: Record<ImageSortKey, Record<string, 1 | -1>> = {
+  newest: { updatedAt: -1 },
+  oldest: { updatedAt: 1 },
+  views: { viewCount: -1, updatedAt: -1 },
+  likes: { likeCount: -1, updatedAt: -1 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Parses a `YYYY-MM-DD` query parameter, ignoring anything else.
+const parseDateParam = (value?: string) => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+
+  const date = new Date(value);
+
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Builds the query for the listed images matching a search and the gallery
+ * filters. Unknown filter values are ignored. A facet named in `except` is
+ * left out, so its counts show what choosing another value would return.
+ */
+const buildGalleryQuery = (
+  search: string,
+  filters: ImageFilterParams,
+  except?: keyof ImageFilterParams
+) => {
+  const query: Record<string, any> = { ...listedImagesFilter };
+
+  if (search) query.$text = { $search: search };
+
+  if (
+    except !== 'type' &&
+    filters.type &&
+    filters.type in transformationTypes
+  ) {
+    query.transformationType = filters.type;
+  }
+
+  if (
+    except !== 'aspectRatio' &&
+    filters.aspectRatio &&
+    filters.aspectRatio in aspectRatioOptions
+  ) {
+    query.aspectRatio = filters.aspectRatio;
+  }
+
+  if (
+    except !== 'author' &&
+    filters.author &&
+    isValidObjectId(filters.author)
+  ) {
+    query.author = new Types.ObjectId(filters.author);
+  }
+
+  const tag = except !== 'tag' && normalizeTag(filters.tag ?? '');
+
+  if (tag) query.tags = tag;
+
+  // Both ends of the date range are inclusive days.
+  const from = parseDateParam(filters.from);
+  const to = parseDateParam(filters.to);
+
+  if (from || to) {
+    query.updatedAt = {
+      ...(from && { $gte: from }),
+      ...(to && { $lt: new Date(to.getTime() + DAY_MS) }),
+    };
+  }
+
+  return query;
+};
+
+/**
+ * Counts the matching images per transformation type, aspect ratio, author
+ * and tag.
+ */
+const getGalleryFacets = async (
+  search: string,
+  filters: ImageFilterParams
+): Promise<ImageFacets> => {
+  const countBy = async (
+    field: string,
+    facet: keyof ImageFilterParams
+  ): Promise<ImageFacet[]> => {
+    const groups = await Image.aggregate([
+      { $match: buildGalleryQuery(search, filters, facet) },
+      // An image counts once for each of its tags.
+      ...(facet === 'tag' ? [{ $unwind: `$${field}` }] : []),
+      {
+        $group: {
+          _id: `$${field}`,
+          count: { $sum: 1 },
+          label: { $first: '$authorName' },
+        },
+      },
+      { $match: { _id: { $ne: null } } },
+      { $sort: { count: -1 } },
+      { $limit: 20 },
+    ]);
+
+    return groups.map((group) => ({
+      value: group._id.toString(),
+      ...(facet === 'author' && { label: group.label }),
+      count: group.count,
+    }));
+  };
+
+  const [types, aspectRatios, authors, tags] = await Promise.all([
+    countBy('transformationType', 'type'),
+    countBy('aspectRatio', 'aspectRatio'),
+    countBy('author', 'author'),
+    countBy('tags', 'tag'),
+  ]);
+
+  return { types, aspectRatios, authors, tags };
+};
+
+/**
+ * Gets a page of listed images, filtered and sorted by the gallery's query
+ * parameters, along with the facet counts for its filters.
+ *
+ * Pages are addressed by opaque cursors rather than page numbers. Totals are
+ * approximate: the match count stops at `MAX_EXACT_TOTAL`, and the number of
+ * saved images comes from collection metadata. Later pages of an infinite
+ * list can skip the totals and facets with `withSummary: false`.
+ */
+export async function getAllImages({
+  limit = 9,
+  cursor,
+  searchQuery = '',
+  filters = {},
+  withSummary = true,
+}: {
+  limit?: number;
+  cursor?: string | null;
+  searchQuery?: string;
+  filters?: ImageFilterParams;
+  withSummary?: boolean;
+}) {
+  try {
+    await connectToDatabase();
+
+    const search = searchQuery.trim().slice(0, MAX_SEARCH_LENGTH);
+
+    // The text index covers title, prompt, color, transformation type, tags
+    // and author name. Without an explicit sort, matches are ranked by relevance.
+    const query = buildGalleryQuery(search, filters);
+    const relevance = { score: { $meta: 'textScore' } };
+    const sort =
+      filters.sort && filters.sort in IMAGE_SORTS
+        ? IMAGE_SORTS[filters.sort as ImageSortKey]
+        : search
+          ? { ...relevance, updatedAt: -1 }
+          : IMAGE_SORTS.newest;
+
+    const { userId } = auth();
+    const viewer = userId ? await User.findOne({ clerkId: userId }) : null;
+
+    const [page, totalImages, savedImages, facets] = await Promise.all([
+      paginate({
+        sort,
+        cursor,
+        limit,
+        run: (keyset, pageSort, skip, pageLimit) =>
+          populateUser(
+            Image.find(
+              { ...query, $and: [keyset] },
+              search ? relevance : undefined
+            )
+          )
+            .sort(pageSort)
+            .skip(skip)
+            .limit(pageLimit)
+            .lean(),
+      }),
+      withSummary
+        ? Image.countDocuments(query, { limit: MAX_EXACT_TOTAL })
+        : undefined,
+      withSummary ? Image.estimatedDocumentCount() : undefined,
+      withSummary ? getGalleryFacets(search, filters) : undefined,
+    ]);
 
     return {
-      data: JSON.parse(JSON.stringify(images)),
-      totalPage: Math.ceil(totalImages / limit),
+      data: JSON.parse(
+        JSON.stringify(await markLikedImages(page.data, viewer?._id))
+      ),
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+      totalImages,
+      isTotalApproximate: (totalImages ?? 0) >= MAX_EXACT_TOTAL,
       savedImages,
+      facets,
     };
   } catch (error) {
     handleError(error);
@@ -167,32 +1054,54 @@ export async function getAllImages({
 }
 
 /**
- * Gets a paginated list of images for the given user.
+ * Gets a page of images for the given user. Other people only see the
+ * user's listed images, and so does everyone when `listedOnly` is set, as on
+ * the user's public profile.
  */
 export async function getUserImages({
   limit = 9,
-  page = 1,
+  cursor,
   userId,
+  listedOnly = false,
 }: {
   limit?: number;
-  page: number;
+  cursor?: string | null;
   userId: string;
+  listedOnly?: boolean;
 }) {
   try {
-    await connectToDatabase();
+    const { userId: clerkId } = auth();
 
-    const skipAmount = (Number(page) - 1) * limit;
+    await connectToDatabase();
 
-    const images = await populateUser(Image.find({ author: userId }))
-      .sort({ updatedAt: -1 })
-      .skip(skipAmount)
-      .limit(limit);
+    const viewer = clerkId ? await User.findOne({ clerkId }) : null;
+    const query = {
+      author: userId,
+      ...((listedOnly || !viewer?._id.equals(userId)) && listedImagesFilter),
+    };
 
-    const totalImages = await Image.find({ author: userId }).countDocuments();
+    const [page, totalImages] = await Promise.all([
+      paginate({
+        sort: IMAGE_SORTS.newest,
+        cursor,
+        limit,
+        run: (keyset, pageSort, skip, pageLimit) =>
+          populateUser(Image.find({ ...query, $and: [keyset] }))
+            .sort(pageSort)
+            .skip(skip)
+            .limit(pageLimit)
+            .lean(),
+      }),
+      Image.countDocuments(query),
+    ]);
 
     return {
-      data: JSON.parse(JSON.stringify(images)),
-      totalPages: Math.ceil(totalImages / limit),
+      data: JSON.parse(
+        JSON.stringify(await markLikedImages(page.data, viewer?._id))
+      ),
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+      totalImages,
     };
   } catch (error) {
     handleError(error);
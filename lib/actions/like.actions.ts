@@ -0,0 +1,147 @@
+'use server';
+
+import { auth } from '@clerk/nextjs';
+import mongoose from 'mongoose';
+
+import Image from '../database/models/image.model';
+import Like from '../database/models/like.model';
+import User from '../database/models/user.model';
+import { connectToDatabase } from '../database/mongoose';
+import { paginate } from '../pagination';
+import { handleError } from '../utils';
+import { canViewImage, listedImagesFilter } from '../visibility';
+
+/**
+ * Likes or unlikes an image the signed-in user can see.
+ *
+ * The client sends the state it wants rather than a toggle, so a repeated
+ * request changes nothing. The like and the image's like count change in one
+ * transaction, and the count only moves when a like is actually created or
+ * removed, so it stays exact under concurrent clicks.
+ */
+export async function setImageLike({
+  imageId,
+  liked,
+  shareToken,
+}: SetImageLikeParams) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) throw new Error('Unauthorized');
+
+    await connectToDatabase();
+
+    const user = await User.findOne({ clerkId: userId });
+    const image = await Image.findById(imageId).populate({
+      path: 'author',
+      model: User,
+      select: '_id clerkId',
+    });
+
+    if (!user) throw new Error('User not found');
+    if (!image || !canViewImage(image, userId, shareToken)) {
+      throw new Error('Image not found');
+    }
+
+    let likeCount = image.likeCount ?? 0;
+
+    await mongoose.connection.transaction(async (session) => {
+      let change = 0;
+
+      if (liked) {
+        const { upsertedCount } = await Like.updateOne(
+          { user: user._id, image: image._id },
+          { $setOnInsert: { createdAt: new Date() } },
+          { upsert: true, session }
+        );
+
+        change = upsertedCount;
+      } else {
+        const { deletedCount } = await Like.deleteOne(
+          { user: user._id, image: image._id },
+          { session }
+        );
+
+        change = -deletedCount;
+      }
+
+      const updatedImage = change
+        ? await Image.findByIdAndUpdate(
+            image._id,
+            { $inc: { likeCount: change } },
+            { new: true, session }
+          )
+        : await Image.findById(image._id, 'likeCount', { session });
+
+      likeCount = updatedImage?.likeCount ?? 0;
+    });
+
+    return { liked, likeCount };
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Gets a page of the images the signed-in user liked, most recently liked
+ * first. Images that were hidden since are left out.
+ */
+export async function getUserFavorites({
+  limit = 9,
+  cursor,
+}: {
+  limit?: number;
+  cursor?: string | null;
+}) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) throw new Error('Unauthorized');
+
+    await connectToDatabase();
+
+    const user = await User.findOne({ clerkId: userId });
+
+    if (!user) throw new Error('User not found');
+
+    const [page, totalImages] = await Promise.all([
+      paginate({
+        sort: { createdAt: -1 },
+        cursor,
+        limit,
+        run: (keyset, pageSort, skip, pageLimit) =>
+          Like.find({ user: user._id, $and: [keyset] })
+            .sort(pageSort)
+            .skip(skip)
+            .limit(pageLimit)
+            .lean(),
+      }),
+      Like.countDocuments({ user: user._id }),
+    ]);
+
+    const images = await Image.find({
+      _id: { $in: page.data.map((like: any) => like.image) },
+      $or: [listedImagesFilter, { author: user._id }],
+    }).lean();
+
+    const imagesById = new Map(
+      images.map((image: any) => [image._id.toString(), image])
+    );
+
+    return {
+      data: JSON.parse(
+        JSON.stringify(
+          page.data
+            .map((like: any) => imagesById.get(like.image.toString()))
+            .filter(Boolean)
+            .map((image: any) => ({ ...image, isLiked: true }))
+        )
+      ),
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+      totalImages,
+    };
+  } catch (error) {
+    handleError(error);
+  }
+}
@@ -0,0 +1,115 @@
+'use server';
+
+import { auth } from '@clerk/nextjs';
+import { revalidatePath } from 'next/cache';
+
+import { aspectRatioOptions, transformationTypes } from '@/constants';
+import Preset from '../database/models/preset.model';
+import User from '../database/models/user.model';
+import { connectToDatabase } from '../database/mongoose';
+import { AspectRatioKey, buildStepConfig, handleError } from '../utils';
+
+/**
+ * Finds the signed-in user.
+ *
+ * Throws an error if nobody is signed in.
+ */
+const getCurrentUser = async () => {
+  const { userId } = auth();
+
+  if (!userId) throw new Error('Unauthorized');
+
+  const user = await User.findOne({ clerkId: userId });
+
+  if (!user) throw new Error('User not found');
+
+  return user;
+};
+
+/**
+ * Saves a preset for the signed-in user.
+ *
+ * Only the options the transformation type uses are kept, and the config is
+ * rebuilt from them rather than taken from the client.
+ */
+export async function createPreset({ preset, path }: CreatePresetParams) {
+  try {
+    await connectToDatabase();
+
+    const author = await getCurrentUser();
+    const type = preset.transformationType;
+
+    if (!transformationTypes[type]) {
+      throw new Error('Unknown transformation type');
+    }
+
+    const options = {
+      aspectRatio:
+        type === 'fill' && preset.aspectRatio
+          ? (Object.keys(aspectRatioOptions).find(
+              (key) => key === preset.aspectRatio
+            ) as AspectRatioKey | undefined)
+          : undefined,
+      prompt:
+        type === 'remove' || type === 'recolor' ? preset.prompt : undefined,
+      color: type === 'recolor' ? preset.color : undefined,
+    };
+
+    const newPreset = await Preset.create({
+      ...options,
+      name: preset.name,
+      transformationType: type,
+      config: buildStepConfig({ type, ...options }),
+      author: author._id,
+    });
+
+    revalidatePath(path);
+
+    return JSON.parse(JSON.stringify(newPreset));
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Gets the signed-in user's presets, newest first, optionally only those for
+ * one transformation type.
+ */
+export async function getUserPresets(type?: TransformationTypeKey) {
+  try {
+    await connectToDatabase();
+
+    const author = await getCurrentUser();
+
+    const presets = await Preset.find({
+      author: author._id,
+      ...(type && { transformationType: type }),
+    }).sort({ createdAt: -1 });
+
+    return JSON.parse(JSON.stringify(presets));
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Deletes one of the signed-in user's presets.
+ */
+export async function deletePreset(presetId: string, path: string) {
+  try {
+    await connectToDatabase();
+
+    const author = await getCurrentUser();
+
+    const deletedPreset = await Preset.findOneAndDelete({
+      _id: presetId,
+      author: author._id,
+    });
+
+    if (!deletedPreset) throw new Error('Preset not found');
+
+    revalidatePath(path);
+  } catch (error) {
+    handleError(error);
+  }
+}
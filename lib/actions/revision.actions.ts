@@ -0,0 +1,113 @@
+'use server';
+
+import { auth } from '@clerk/nextjs';
+import { revalidatePath } from 'next/cache';
+
+import Image from '../database/models/image.model';
+import ImageRevision from '../database/models/imageRevision.model';
+import User from '../database/models/user.model';
+import { connectToDatabase } from '../database/mongoose';
+import { pickRevisionFields, snapshotImage } from '../revisions';
+import { handleError } from '../utils';
+import { getVisibilityFields } from '../visibility';
+
+/**
+ * Finds an image owned by the signed-in user.
+ *
+ * Throws an error if nobody is signed in or the image belongs to someone else.
+ */
+const getOwnedImage = async (imageId: string) => {
+  const { userId } = auth();
+
+  if (!userId) throw new Error('Unauthorized');
+
+  const user = await User.findOne({ clerkId: userId });
+  const image = await Image.findById(imageId);
+
+  if (!user || !image || !image.author.equals(user._id)) {
+    throw new Error('Unauthorized or image not found');
+  }
+
+  return image;
+};
+
+/**
+ * Gets the revisions of an image owned by the signed-in user, newest first.
+ */
+export async function getImageRevisions(imageId: string) {
+  try {
+    await connectToDatabase();
+
+    await getOwnedImage(imageId);
+
+    const revisions = await ImageRevision.find({ image: imageId }).sort({
+      createdAt: -1,
+    });
+
+    return JSON.parse(JSON.stringify(revisions));
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Restores an image to one of its revisions.
+ *
+ * The current state is snapshotted first, so a revert can itself be undone.
+ */
+export async function revertImageRevision(revisionId: string, path: string) {
+  try {
+    await connectToDatabase();
+
+    const revision = await ImageRevision.findById(revisionId);
+
+    if (!revision) throw new Error('Revision not found');
+
+    const image = await getOwnedImage(revision.image.toString());
+
+    await snapshotImage(image);
+
+    const revertedImage = await Image.findByIdAndUpdate(
+      image._id,
+      { ...pickRevisionFields(revision), updatedAt: new Date() },
+      { new: true }
+    );
+
+    revalidatePath(path);
+
+    return JSON.parse(JSON.stringify(revertedImage));
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Creates a new image for the signed-in user from one of their revisions,
+ * leaving the original image untouched.
+ */
+export async function forkImageRevision(revisionId: string) {
+  try {
+    await connectToDatabase();
+
+    const revision = await ImageRevision.findById(revisionId);
+
+    if (!revision) throw new Error('Revision not found');
+
+    const image = await getOwnedImage(revision.image.toString());
+
+    const forkedImage = await Image.create({
+      ...pickRevisionFields(revision),
+      ...getVisibilityFields(image.visibility ?? 'public'),
+      tags: image.tags,
+      remixOf: image.remixOf,
+      author: image.author,
+      authorName: image.authorName,
+    });
+
+    revalidatePath('/');
+
+    return JSON.parse(JSON.stringify(forkedImage));
+  } catch (error) {
+    handleError(error);
+  }
+}
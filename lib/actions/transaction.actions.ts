@@ -1,11 +1,53 @@
 'use server';
 
+import { auth } from '@clerk/nextjs';
 import { redirect } from 'next/navigation';
 import Stripe from 'stripe';
-import { handleError } from '../utils';
+
+import { plans } from '@/constants';
 import { connectToDatabase } from '../database/mongoose';
+import PromoCodeReservation from '../database/models/promoCodeReservation.model';
 import Transaction from '../database/models/transaction.model';
-import { updateCredits } from './user.actions';
+import User from '../database/models/user.model';
+import { paginate } from '../pagination';
+import {
+  describePromoCode,
+  findRedeemablePromoCode,
+  priceWithPromoCode,
+  releasePromoCode,
+  reservePromoCode,
+} from '../promo-codes';
+import {
+  findPendingSubscriptionCheckout,
+  getSubscriptionPlan,
+} from '../subscriptions';
+import { handleError } from '../utils';
+
+// Stripe's shortest checkout lifetime, so an abandoned checkout soon gives
+// its promo code's use back.
+const PROMO_CHECKOUT_TTL_S = 30 * 60;
+
+// Subscription checkouts started within the same minute are one checkout.
+const IDEMPOTENCY_WINDOW_MS = 60 * 1000;
+
+/**
+ * Finds the signed-in user.
+ *
+ * Throws an error if nobody is signed in.
+ */
+const getCurrentUser = async () => {
+  const { userId } = auth();
+
+  if (!userId) throw new Error('Unauthorized');
+
+  await connectToDatabase();
+
+  const user = await User.findOne({ clerkId: userId });
+
+  if (!user) throw new Error('User not found');
+
+  return user;
+};
 
 /**
  * Checkout credits via Stripe.
@@ -13,54 +55,237 @@ import { updateCredits } from './user.actions';
  * Creates a Stripe checkout session to allow the user to purchase
  * the specified number of credits with the given plan name.
  * Redirects to the Stripe hosted checkout page on success.
+ *
+ * The price comes from `plans`, with the promo code applied if one is
+ * given. The checkout holds one use of the code, which counts towards both
+ * the code's limits; the Stripe webhook gives it back if the checkout
+ * expires unpaid.
+ *
+ * Throws an error if nobody is signed in, the plan is unknown or the promo
+ * code cannot be used.
  */
 export async function checkoutCredits(transaction: CheckoutTransactionParams) {
   const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
 
-  const amount = Number(transaction.amount) * 100;
+  const plan = plans.find(
+    ({ name, price }) => name === transaction.plan && price > 0
+  );
 
-  const session = await stripe.checkout.sessions.create({
-    line_items: [
-      {
-        price_data: {
-          currency: 'usd',
-          unit_amount: amount,
-          product_data: {
-            name: transaction.plan,
+  if (!plan) throw new Error('Unknown plan');
+
+  // The credits go to the signed-in user, whatever buyer the client names.
+  const user = await getCurrentUser();
+  const buyerId = user._id.toString();
+
+  const promoCode = transaction.promoCode
+    ? await findRedeemablePromoCode(transaction.promoCode, buyerId)
+    : null;
+  const { amount, discount, bonusCredits } = priceWithPromoCode(
+    plan,
+    promoCode
+  );
+
+  const reservation = promoCode
+    ? await reservePromoCode(promoCode.code, buyerId)
+    : null;
+
+  const session = await stripe.checkout.sessions
+    .create({
+      line_items: [
+        {
+          price_data: {
+            currency: 'usd',
+            unit_amount: Math.round(amount * 100),
+            product_data: {
+              name: promoCode
+                ? `${plan.name} (${promoCode.code}: ${describePromoCode(
+                    promoCode
+                  )})`
+                : plan.name,
+            },
           },
+          quantity: 1,
         },
-        quantity: 1,
+      ],
+      metadata: {
+        plan: plan.name,
+        credits: plan.credits,
+        buyerId,
+        ...(promoCode && {
+          promoCode: promoCode.code,
+          promoReservation: reservation._id.toString(),
+          discount,
+          bonusCredits,
+        }),
       },
-    ],
-    metadata: {
-      plan: transaction.plan,
-      credits: transaction.credits,
-      buyerId: transaction.buyerId,
+      mode: 'payment',
+      // The promo code's use is held until the checkout expires.
+      ...(promoCode && {
+        expires_at: Math.floor(Date.now() / 1000) + PROMO_CHECKOUT_TTL_S,
+      }),
+      success_url: `${process.env.NEXT_PUBLIC_SERVER_URL}/profile`,
+      cancel_url: `${process.env.NEXT_PUBLIC_SERVER_URL}/`,
+    })
+    .catch(async (error) => {
+      if (reservation) await releasePromoCode(reservation._id.toString());
+      throw error;
+    });
+
+  if (reservation) {
+    await PromoCodeReservation.updateOne(
+      { _id: reservation._id },
+      { checkoutSessionId: session.id }
+    );
+  }
+
+  redirect(session.url!);
+}
+
+/**
+ * Subscribes the signed-in user to a recurring plan via Stripe.
+ *
+ * Creates a Stripe checkout session in subscription mode, reusing the
+ * user's Stripe customer so all their subscriptions and invoices stay
+ * together. Credits are not granted here but by the Stripe webhook, once
+ * each invoice is paid.
+ *
+ * Opens at most one checkout at a time: an open checkout for the same plan
+ * is reused, and one for another plan is expired first.
+ *
+ * Throws an error if the plan is unknown or the user already has an active
+ * subscription.
+ */
+export async function checkoutSubscription(subscriptionPlanId: string) {
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+  const plan = getSubscriptionPlan(subscriptionPlanId);
+
+  if (!plan) throw new Error('Unknown subscription plan');
+
+  const user = await getCurrentUser();
+
+  if (user.subscription) throw new Error('Already subscribed');
+
+  if (!user.stripeCustomerId) {
+    const customer = await stripe.customers.create({
+      email: user.email,
+      metadata: { buyerId: user._id.toString() },
+    });
+
+    user.stripeCustomerId = customer.id;
+    await user.save();
+  }
+
+  // A second click reuses the checkout the first one opened, so only one
+  // subscription can come out of them.
+  const pendingCheckout = await findPendingSubscriptionCheckout(
+    stripe,
+    user.stripeCustomerId
+  );
+
+  if (pendingCheckout?.metadata?.subscriptionPlan === plan._id) {
+    redirect(pendingCheckout.url!);
+  }
+
+  if (pendingCheckout) {
+    await stripe.checkout.sessions.expire(pendingCheckout.id);
+  }
+
+  const metadata = {
+    subscriptionPlan: plan._id,
+    buyerId: user._id.toString(),
+  };
+
+  const session = await stripe.checkout.sessions.create(
+    {
+      customer: user.stripeCustomerId,
+      line_items: [
+        {
+          price_data: {
+            currency: 'usd',
+            unit_amount: plan.price * 100,
+            recurring: { interval: plan.interval },
+            product_data: {
+              name: plan.name,
+            },
+          },
+          quantity: 1,
+        },
+      ],
+      metadata,
+      subscription_data: { metadata },
+      mode: 'subscription',
+      success_url: `${process.env.NEXT_PUBLIC_SERVER_URL}/profile`,
+      cancel_url: `${process.env.NEXT_PUBLIC_SERVER_URL}/credits`,
     },
-    mode: 'payment',
-    success_url: `${process.env.NEXT_PUBLIC_SERVER_URL}/profile`,
-    cancel_url: `${process.env.NEXT_PUBLIC_SERVER_URL}/`,
+    {
+      // Clicks too close together to see each other's checkout get the same
+      // one from Stripe.
+      idempotencyKey: `subscription-checkout-${user._id}-${plan._id}-${Math.floor(
+        Date.now() / IDEMPOTENCY_WINDOW_MS
+      )}`,
+    }
+  );
+
+  // Stripe hands back the same checkout for a repeated key, even once it
+  // was completed or expired.
+  if (!session.url) throw new Error('Please try again in a minute');
+
+  redirect(session.url);
+}
+
+/**
+ * Opens the Stripe billing portal, where the signed-in user can update
+ * their payment method or cancel their subscription.
+ *
+ * Throws an error if the user never subscribed.
+ */
+export async function manageSubscription() {
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+  const user = await getCurrentUser();
+
+  if (!user.stripeCustomerId) throw new Error('No subscription found');
+
+  const session = await stripe.billingPortal.sessions.create({
+    customer: user.stripeCustomerId,
+    return_url: `${process.env.NEXT_PUBLIC_SERVER_URL}/credits`,
   });
 
-  redirect(session.url!);
+  redirect(session.url);
 }
 
 /**
- * Creates a new transaction in the database.
+ * Gets a page of the signed-in user's transactions, newest first, each with
+ * the refunds and disputes of its payment.
  */
-export async function createTransaction(transaction: CreateTransactionParams) {
+export async function getUserTransactions({
+  limit = 10,
+  cursor,
+}: {
+  limit?: number;
+  cursor?: string | null;
+}) {
   try {
-    await connectToDatabase();
+    const user = await getCurrentUser();
 
-    // Create a new transaction with a buyerId
-    const newTransaction = await Transaction.create({
-      ...transaction,
-      buyer: transaction.buyerId,
+    const page = await paginate({
+      sort: { createdAt: -1 },
+      cursor,
+      limit,
+      run: (keyset, pageSort, skip, pageLimit) =>
+        Transaction.find({ buyer: user._id, $and: [keyset] })
+          .sort(pageSort)
+          .skip(skip)
+          .limit(pageLimit)
+          .lean(),
     });
 
-    await updateCredits(transaction.buyerId, transaction.credits);
-
-    return JSON.parse(JSON.stringify(newTransaction));
+    return {
+      data: JSON.parse(JSON.stringify(page.data)),
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+    };
   } catch (error) {
     handleError(error);
   }
@@ -1,16 +1,21 @@
 'use server';
 
+import mongoose from 'mongoose';
 import { revalidatePath } from 'next/cache';
 
+import Image from '../database/models/image.model';
 import User from '../database/models/user.model';
 import { connectToDatabase } from '../database/mongoose';
-import { handleError } from '../utils';
+import { recordLedgerEntry } from '../credits';
+import { getAuthorName, handleError } from '../utils';
+import { listedImagesFilter } from '../visibility';
 
 /**
  * Creates a new user in the database.
  *
  * Connects to the database, creates a new user document from the provided
- * user parameters, and returns the new user object.
+ * user parameters, records the signup credit grant in the ledger, and
+ * returns the new user object.
  *
  * Handles any errors from the database operations.
  */
@@ -18,7 +23,18 @@ export async function createUser(user: CreateUserParams) {
   try {
     await connectToDatabase();
 
-    const newUser = await User.create(user);
+    let newUser: any = null;
+
+    await mongoose.connection.transaction(async (session) => {
+      [newUser] = await User.create([user], { session });
+
+      await recordLedgerEntry(
+        newUser._id,
+        newUser.creditBalance,
+        { reason: 'signup' },
+        session
+      );
+    });
 
     return JSON.parse(JSON.stringify(newUser));
   } catch (error) {
@@ -49,6 +65,52 @@ export async function getUserById(userId: string) {
   }
 }
 
+/**
+ * Gets the public profile of the user with the given username: their name,
+ * photo and join date, with how many listed images they have and how many
+ * likes those images got. Private and unlisted images are not counted.
+ *
+ * Throws an error if no user has the given username.
+ */
+export async function getUserProfile(username: string) {
+  try {
+    await connectToDatabase();
+
+    const user = await User.findOne(
+      { username },
+      '_id username firstName lastName photo createdAt'
+    ).lean<any>();
+
+    if (!user) throw new Error('User not found');
+
+    const [stats] = await Image.aggregate([
+      { $match: { author: user._id, ...listedImagesFilter } },
+      {
+        $group: {
+          _id: null,
+          totalImages: { $sum: 1 },
+          totalLikes: { $sum: { $ifNull: ['$likeCount', 0] } },
+        },
+      },
+    ]);
+
+    return JSON.parse(
+      JSON.stringify({
+        _id: user._id,
+        username: user.username,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        photo: user.photo,
+        joinedAt: user.createdAt ?? user._id.getTimestamp(),
+        totalImages: stats?.totalImages ?? 0,
+        totalLikes: stats?.totalLikes ?? 0,
+      })
+    );
+  } catch (error) {
+    handleError(error);
+  }
+}
+
 /**
  * Updates a user in the database by clerkId.
  *
@@ -70,6 +132,11 @@ export async function updateUser(clerkId: string, user: UpdateUserParams) {
 
     if (!updatedUser) throw new Error('User update failed');
 
+    await Image.updateMany(
+      { author: updatedUser._id },
+      { authorName: getAuthorName(updatedUser) }
+    );
+
     return JSON.parse(JSON.stringify(updatedUser));
   } catch (error) {
     handleError(error);
@@ -106,31 +173,3 @@ export async function deleteUser(clerkId: string) {
     handleError(error);
   }
 }
-
-/**
- * Updates the credit balance for the user with the given ID.
- *
- * Connects to the database, finds the user by ID, increments their
- * credit balance by the provided amount, and returns the updated user object.
- *
- * Throws an error if the user update fails.
- *
- * Handles any errors from the database operations.
- */
-export async function updateCredits(userId: string, creditFee: number) {
-  try {
-    await connectToDatabase();
-
-    const updatedUserCredits = await User.findOneAndUpdate(
-      { _id: userId },
-      { $inc: { creditBalance: creditFee } },
-      { new: true }
-    );
-
-    if (!updatedUserCredits) throw new Error('User credits update failed');
-
-    return JSON.parse(JSON.stringify(updatedUserCredits));
-  } catch (error) {
-    handleError(error);
-  }
-}
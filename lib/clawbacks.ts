@@ -0,0 +1,315 @@
+import { ClientSession } from 'mongoose';
+import Stripe from 'stripe';
+
+import { clawbackPolicy } from '@/constants';
+
+import { grantCredits } from './credits';
+import CreditLedgerEntry from './database/models/creditLedgerEntry.model';
+import Transaction from './database/models/transaction.model';
+import User from './database/models/user.model';
+import { getStripeId } from './utils';
+
+// Like `lib/credits.ts`, these helpers stay out of `lib/actions`: they trust
+// the Stripe objects they are given, so only Stripe events, once their
+// signature is checked, may reach them. See `lib/stripe-events.ts`.
+
+/**
+ * Finds the transaction a Stripe payment was recorded as. Payments made
+ * before transactions kept their payment intent are not found.
+ */
+const findTransaction = (
+  paymentIntent: string | Stripe.PaymentIntent | null,
+  session: ClientSession
+) => {
+  const paymentIntentId = getStripeId(paymentIntent);
+
+  return paymentIntentId
+    ? Transaction.findOne({ paymentIntentId }, null, { session })
+    : null;
+};
+
+/**
+ * Sums the credits a transaction's refunds and disputes took back so far,
+ * less those won disputes gave back, from the ledger entries they wrote.
+ */
+const getCreditsTakenBack = async (
+  transaction: any,
+  session: ClientSession
+) => {
+  const id = transaction._id.toString();
+
+  const [total] = await CreditLedgerEntry.aggregate([
+    {
+      $match: {
+        $or: [
+          {
+            reason: 'clawback',
+            'reference.kind': 'transaction',
+            'reference.id': id,
+          },
+          {
+            reason: 'adjustment',
+            'details.transaction': id,
+            'details.won': true,
+          },
+        ],
+      },
+    },
+    { $group: { _id: null, amount: { $sum: '$amount' } } },
+  ]).session(session);
+
+  return -(total?.amount ?? 0);
+};
+
+/**
+ * The status of a transaction with refunds, or null if nothing was refunded.
+ */
+const getRefundStatus = (transaction: any): TransactionStatus | null => {
+  if (!transaction.refundedAmount) return null;
+
+  return Math.round(transaction.refundedAmount * 100) >=
+    Math.round(transaction.amount * 100)
+    ? 'refunded'
+    : 'partially_refunded';
+};
+
+/**
+ * Freezes the buyer's account because of the given transaction, unless it
+ * is frozen already.
+ */
+const freezeAccount = (
+  transaction: any,
+  reason: 'refund' | 'dispute',
+  session: ClientSession
+) =>
+  User.updateOne(
+    { _id: transaction.buyer, frozen: null },
+    { frozen: { reason, transaction: transaction._id, createdAt: new Date() } },
+    { session }
+  );
+
+/**
+ * Takes credits bought with a transaction back from its buyer, following
+ * `clawbackPolicy`: either all of them, even if the balance goes negative,
+ * or at most the balance, freezing the account for the rest.
+ *
+ * Returns the credits taken back.
+ *
+ * Throws an error if the buyer does not exist.
+ */
+const clawBackCredits = async (
+  transaction: any,
+  credits: number,
+  reason: 'refund' | 'dispute',
+  details: Record<string, any>,
+  session: ClientSession
+) => {
+  const user = await User.findById(transaction.buyer, 'creditBalance', {
+    session,
+  });
+
+  if (!user) throw new Error('User not found');
+
+  const taken =
+    clawbackPolicy === 'negative'
+      ? credits
+      : Math.min(credits, Math.max(user.creditBalance, 0));
+
+  if (taken > 0) {
+    await grantCredits(
+      user._id,
+      -taken,
+      {
+        reason: 'clawback',
+        reference: { kind: 'transaction', id: transaction._id.toString() },
+        details,
+      },
+      session
+    );
+  }
+
+  if (taken < credits) await freezeAccount(transaction, reason, session);
+
+  return taken;
+};
+
+/**
+ * Takes back the credits of the refunded part of a charge inside an open
+ * session. Stripe reports the total refunded so far, so each refund only
+ * takes back what earlier refunds and disputes did not.
+ *
+ * Returns the updated transaction, or null if the charge is not one of ours.
+ */
+export async function applyRefund(
+  charge: Stripe.Charge,
+  session: ClientSession
+) {
+  const transaction = await findTransaction(charge.payment_intent, session);
+
+  if (!transaction || !charge.amount) return null;
+
+  const credits = transaction.credits ?? 0;
+  const refundedCredits = Math.min(
+    credits,
+    Math.round((credits * charge.amount_refunded) / charge.amount)
+  );
+  const owed =
+    refundedCredits - (await getCreditsTakenBack(transaction, session));
+
+  const taken =
+    owed > 0
+      ? await clawBackCredits(
+          transaction,
+          owed,
+          'refund',
+          { charge: charge.id },
+          session
+        )
+      : 0;
+
+  return Transaction.findByIdAndUpdate(
+    transaction._id,
+    {
+      status: charge.refunded ? 'refunded' : 'partially_refunded',
+      refundedAmount: charge.amount_refunded / 100,
+      refundedCredits,
+      $push: {
+        events: {
+          type: 'refund',
+          stripeId: charge.id,
+          amount: charge.amount_refunded / 100 - transaction.refundedAmount,
+          credits: taken,
+        },
+      },
+    },
+    { new: true, session }
+  );
+}
+
+/**
+ * Takes back the credits of a disputed charge that were not taken back
+ * already, inside an open session. Under the 'freeze' policy, the account
+ * is also frozen until the dispute is won.
+ *
+ * Returns the updated transaction, or null if the charge is not one of ours.
+ */
+export async function openDispute(
+  dispute: Stripe.Dispute,
+  session: ClientSession
+) {
+  const transaction = await findTransaction(dispute.payment_intent, session);
+
+  if (!transaction) return null;
+
+  const owed = Math.max(
+    (transaction.credits ?? 0) -
+      (await getCreditsTakenBack(transaction, session)),
+    0
+  );
+
+  const taken =
+    owed > 0
+      ? await clawBackCredits(
+          transaction,
+          owed,
+          'dispute',
+          { dispute: dispute.id },
+          session
+        )
+      : 0;
+
+  if (clawbackPolicy === 'freeze') {
+    await freezeAccount(transaction, 'dispute', session);
+  }
+
+  return Transaction.findByIdAndUpdate(
+    transaction._id,
+    {
+      status: 'disputed',
+      $push: {
+        events: {
+          type: 'dispute_opened',
+          stripeId: dispute.id,
+          amount: dispute.amount / 100,
+          credits: taken,
+        },
+      },
+    },
+    { new: true, session }
+  );
+}
+
+/**
+ * Settles a dispute inside an open session. A won dispute gives back the
+ * credits it took, except those a refund since accounts for, and lifts the
+ * freeze it caused; a lost one keeps both. A refunded transaction keeps its
+ * refund status.
+ *
+ * Returns the updated transaction, or null if the charge is not one of ours.
+ */
+export async function closeDispute(
+  dispute: Stripe.Dispute,
+  session: ClientSession
+) {
+  const transaction = await findTransaction(dispute.payment_intent, session);
+
+  if (!transaction) return null;
+
+  // A closed inquiry, with no money taken, counts as won.
+  const isWon = dispute.status !== 'lost';
+  const openedEvent = transaction.events.find(
+    (event: any) =>
+      event.type === 'dispute_opened' && event.stripeId === dispute.id
+  );
+  const credits = isWon
+    ? Math.max(
+        Math.min(
+          openedEvent?.credits ?? 0,
+          (await getCreditsTakenBack(transaction, session)) -
+            transaction.refundedCredits
+        ),
+        0
+      )
+    : 0;
+
+  // Giving credits back is not a clawback, so it is recorded as an
+  // adjustment of the dispute.
+  if (credits > 0) {
+    await grantCredits(
+      transaction.buyer,
+      credits,
+      {
+        reason: 'adjustment',
+        reference: { kind: 'stripe', id: dispute.id },
+        details: { transaction: transaction._id.toString(), won: true },
+      },
+      session
+    );
+  }
+
+  if (isWon) {
+    await User.updateOne(
+      { _id: transaction.buyer, 'frozen.transaction': transaction._id },
+      { frozen: null },
+      { session }
+    );
+  }
+
+  return Transaction.findByIdAndUpdate(
+    transaction._id,
+    {
+      status:
+        getRefundStatus(transaction) ??
+        (isWon ? 'dispute_won' : 'dispute_lost'),
+      $push: {
+        events: {
+          type: isWon ? 'dispute_won' : 'dispute_lost',
+          stripeId: dispute.id,
+          amount: dispute.amount / 100,
+          credits,
+        },
+      },
+    },
+    { new: true, session }
+  );
+}
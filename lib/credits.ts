@@ -0,0 +1,336 @@
+import mongoose, { ClientSession } from 'mongoose';
+
+import CreditLedgerEntry from './database/models/creditLedgerEntry.model';
+import User from './database/models/user.model';
+import { connectToDatabase } from './database/mongoose';
+
+// Credit mutations live outside of `lib/actions` on purpose: everything
+// exported from a 'use server' module is callable from the browser, and
+// these helpers trust the user id and amount they are given.
+//
+// `User.creditBalance` is a cached total of the user's CreditLedgerEntry
+// documents. Every helper here moves both together in one transaction.
+
+/**
+ * Appends a ledger entry for the given user inside an open session.
+ */
+export async function recordLedgerEntry(
+  userId: string,
+  amount: number,
+  { reason, reference, details }: CreditChange,
+  session: ClientSession
+) {
+  const [entry] = await CreditLedgerEntry.create(
+    [{ user: userId, amount, reason, reference, details }],
+    { session }
+  );
+
+  return entry;
+}
+
+/**
+ * Increments the cached balance of the user with the given ID inside an open
+ * session, and records why it changed in the ledger.
+ *
+ * Throws an error if the user update fails.
+ */
+export async function grantCredits(
+  userId: string,
+  amount: number,
+  change: CreditChange,
+  session: ClientSession
+) {
+  const updatedUser = await User.findOneAndUpdate(
+    { _id: userId },
+    { $inc: { creditBalance: amount } },
+    { new: true, session }
+  );
+
+  if (!updatedUser) throw new Error('User credits update failed');
+
+  await recordLedgerEntry(userId, amount, change, session);
+
+  return updatedUser;
+}
+
+/**
+ * Updates the credit balance for the user with the given ID.
+ *
+ * Increments the cached balance by the provided amount and records why it
+ * changed in the ledger, then returns the updated user object.
+ *
+ * Throws an error if the user update fails.
+ */
+export async function updateCredits(
+  userId: string,
+  amount: number,
+  change: CreditChange
+) {
+  await connectToDatabase();
+
+  let updatedUser: any = null;
+
+  await mongoose.connection.transaction(async (session) => {
+    updatedUser = await grantCredits(userId, amount, change, session);
+  });
+
+  return JSON.parse(JSON.stringify(updatedUser));
+}
+
+/**
+ * Explains why a deduction found no user to charge: their account is
+ * frozen, or they cannot cover the fee.
+ */
+const getDeductionError = async (clerkId: string, session: ClientSession) => {
+  const user = await User.findOne({ clerkId }, 'frozen', { session });
+
+  return new Error(user?.frozen ? 'Account frozen' : 'Insufficient credits');
+};
+
+/**
+ * Deducts the given fee from the balance of the user with the given clerkId.
+ *
+ * The balance check and the decrement happen in a single update, so two
+ * concurrent requests can never spend the same credits twice.
+ *
+ * Returns the updated user along with the id of the charge's ledger entry,
+ * which is what a later refund points back to.
+ *
+ * Throws an error if the user does not exist, is frozen or cannot cover the
+ * fee.
+ */
+export async function deductCredits(
+  clerkId: string,
+  fee: number,
+  change: CreditChange
+) {
+  await connectToDatabase();
+
+  let updatedUser: any = null;
+  let charge: any = null;
+
+  await mongoose.connection.transaction(async (session) => {
+    updatedUser = await User.findOneAndUpdate(
+      { clerkId, creditBalance: { $gte: fee }, frozen: null },
+      { $inc: { creditBalance: -fee } },
+      { new: true, session }
+    );
+
+    if (!updatedUser) throw await getDeductionError(clerkId, session);
+
+    charge = await recordLedgerEntry(updatedUser._id, -fee, change, session);
+  });
+
+  return {
+    user: JSON.parse(JSON.stringify(updatedUser)),
+    chargeId: charge._id.toString() as string,
+  };
+}
+
+/**
+ * Deducts several fees from the balance of the user with the given clerkId.
+ *
+ * The balance is checked against the total once, before anything is
+ * charged, so either every fee is deducted or none is. Each fee still gets
+ * its own ledger entry, so the charges can be refunded one at a time.
+ *
+ * Throws an error if the user does not exist, is frozen or cannot cover the
+ * total.
+ */
+export async function deductBatchCredits(
+  clerkId: string,
+  charges: { fee: number; change: CreditChange }[]
+) {
+  await connectToDatabase();
+
+  const total = charges.reduce((sum, { fee }) => sum + fee, 0);
+
+  let updatedUser: any = null;
+  const chargeIds: string[] = [];
+
+  await mongoose.connection.transaction(async (session) => {
+    // The callback runs again if the transaction is retried.
+    chargeIds.length = 0;
+
+    updatedUser = await User.findOneAndUpdate(
+      { clerkId, creditBalance: { $gte: total }, frozen: null },
+      { $inc: { creditBalance: -total } },
+      { new: true, session }
+    );
+
+    if (!updatedUser) throw await getDeductionError(clerkId, session);
+
+    for (const { fee, change } of charges) {
+      const charge = await recordLedgerEntry(
+        updatedUser._id,
+        -fee,
+        change,
+        session
+      );
+
+      chargeIds.push(charge._id.toString());
+    }
+  });
+
+  return {
+    user: JSON.parse(JSON.stringify(updatedUser)),
+    chargeIds,
+  };
+}
+
+/**
+ * Refunds a transformation charge with a compensating ledger entry.
+ *
+ * Only the user who was charged can be refunded, and each charge at most
+ * once: the refund references the charge, and that reference is unique.
+ *
+ * Runs in the given session, so it commits along with the caller's other
+ * writes, or else in a transaction of its own.
+ *
+ * Throws an error if the charge does not exist, belongs to someone else or
+ * has already been refunded.
+ */
+export async function refundCharge(
+  chargeId: string,
+  userId: string,
+  session?: ClientSession
+) {
+  await connectToDatabase();
+
+  let updatedUser: any = null;
+  let refund: any = null;
+
+  const applyRefund = async (session: ClientSession) => {
+    const charge = await CreditLedgerEntry.findOne(
+      { _id: chargeId, user: userId, reason: 'transformation' },
+      null,
+      { session }
+    );
+
+    if (!charge) throw new Error('Charge not found');
+
+    const reference: CreditReference = { kind: 'ledger', id: chargeId };
+
+    const alreadyRefunded = await CreditLedgerEntry.exists({
+      reason: 'refund',
+      'reference.kind': reference.kind,
+      'reference.id': reference.id,
+    }).session(session);
+
+    if (alreadyRefunded) throw new Error('Charge already refunded');
+
+    updatedUser = await User.findOneAndUpdate(
+      { _id: userId },
+      { $inc: { creditBalance: -charge.amount } },
+      { new: true, session }
+    );
+
+    if (!updatedUser) throw new Error('User credits update failed');
+
+    refund = await recordLedgerEntry(
+      userId,
+      -charge.amount,
+      { reason: 'refund', reference },
+      session
+    );
+  };
+
+  if (session) await applyRefund(session);
+  else await mongoose.connection.transaction(applyRefund);
+
+  return {
+    user: JSON.parse(JSON.stringify(updatedUser)),
+    amount: refund.amount as number,
+  };
+}
+
+/**
+ * Lists users whose cached `creditBalance` differs from the sum of their
+ * ledger entries.
+ */
+export async function findCreditMismatches() {
+  await connectToDatabase();
+
+  const totals: { _id: mongoose.Types.ObjectId; balance: number }[] =
+    await CreditLedgerEntry.aggregate([
+      { $group: { _id: '$user', balance: { $sum: '$amount' } } },
+    ]);
+
+  const ledgerBalances = new Map(
+    totals.map((total) => [total._id.toHexString(), total.balance])
+  );
+
+  const users = await User.find({}, '_id username creditBalance').lean<
+    { _id: mongoose.Types.ObjectId; username: string; creditBalance: number }[]
+  >();
+
+  return users
+    .map((user) => ({
+      userId: user._id.toHexString(),
+      username: user.username,
+      creditBalance: user.creditBalance,
+      ledgerBalance: ledgerBalances.get(user._id.toHexString()) ?? 0,
+    }))
+    .filter((user) => user.creditBalance !== user.ledgerBalance);
+}
+
+/**
+ * Writes an opening 'adjustment' entry for every user created before the
+ * ledger existed, so their ledger adds up to their cached balance.
+ *
+ * Those users are the ones without a 'signup' entry. The opening entry is
+ * the balance minus whatever the ledger recorded since, read from one
+ * snapshot, so it stays right while users keep spending. Users who already
+ * have an opening entry are skipped, so running it twice changes nothing.
+ *
+ * Returns the opening entries written.
+ */
+export async function backfillOpeningBalances() {
+  await connectToDatabase();
+
+  const users = await User.find({}, '_id').lean<
+    { _id: mongoose.Types.ObjectId }[]
+  >();
+
+  const openings: { userId: string; amount: number }[] = [];
+
+  for (const { _id } of users) {
+    let amount = 0;
+
+    await mongoose.connection.transaction(
+      async (session) => {
+        // The callback runs again if the transaction is retried.
+        amount = 0;
+
+        const hasLedger = await CreditLedgerEntry.exists({
+          user: _id,
+          $or: [{ reason: 'signup' }, { 'details.opening': true }],
+        }).session(session);
+
+        if (hasLedger) return;
+
+        const user = await User.findById(_id, 'creditBalance', { session });
+        const [total] = await CreditLedgerEntry.aggregate([
+          { $match: { user: _id } },
+          { $group: { _id: null, balance: { $sum: '$amount' } } },
+        ]).session(session);
+
+        amount = (user?.creditBalance ?? 0) - (total?.balance ?? 0);
+
+        if (amount === 0) return;
+
+        await recordLedgerEntry(
+          _id.toHexString(),
+          amount,
+          { reason: 'adjustment', details: { opening: true } },
+          session
+        );
+      },
+      { readConcern: { level: 'snapshot' } }
+    );
+
+    if (amount !== 0) openings.push({ userId: _id.toHexString(), amount });
+  }
+
+  return openings;
+}
@@ -0,0 +1,47 @@
+import { Document, Schema, model, models } from 'mongoose';
+
+export interface IAlbum extends Document {
+  author: { _id: string; firstName: string; lastName: string; clerkId: string };
+  title: string;
+  description?: string;
+  images: string[];
+  cover?: string | null;
+  visibility?: ImageVisibility;
+  shareToken?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * A user-defined collection of images, kept in the order the author chose.
+ * An album only groups images: it has its own visibility, but never shows an
+ * image to someone who could not see it on its own.
+ */
+const AlbumSchema = new Schema({
+  author: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  title: { type: String, required: true, trim: true, maxlength: 80 },
+  description: { type: String, trim: true, maxlength: 500 },
+  images: [{ type: Schema.Types.ObjectId, ref: 'Image' }],
+  // Falls back to the first image the viewer can see when unset.
+  cover: { type: Schema.Types.ObjectId, ref: 'Image', default: null },
+  visibility: {
+    type: String,
+    enum: ['private', 'unlisted', 'public'],
+    default: 'public',
+  },
+  shareToken: { type: String },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+// Lets deleting an image take it out of every album that holds it.
+AlbumSchema.index({ images: 1 });
+
+const Album = models?.Album || model('Album', AlbumSchema);
+
+export default Album;
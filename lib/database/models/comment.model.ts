@@ -0,0 +1,59 @@
+import { Document, Schema, model, models } from 'mongoose';
+
+export interface IComment extends Document {
+  image: string;
+  author: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    username: string;
+    photo?: string;
+  } | null;
+  parent?: string | null;
+  root?: string | null;
+  body: string;
+  // The mentioned users are populated with their current username.
+  mentions: {
+    username: string;
+    user: { _id: string; username: string } | null;
+  }[];
+  editedAt?: Date | null;
+  deletedAt?: Date | null;
+  createdAt?: Date;
+  // Whether the signed-in user wrote the comment, set for the client.
+  isAuthor?: boolean;
+}
+
+/**
+ * A comment on an image. Replies point at the comment they answer and at the
+ * top-level comment of their thread, so a whole thread loads in one query.
+ */
+const CommentSchema = new Schema({
+  image: { type: Schema.Types.ObjectId, ref: 'Image', required: true },
+  author: { type: Schema.Types.ObjectId, ref: 'User' },
+  parent: { type: Schema.Types.ObjectId, ref: 'Comment', default: null },
+  root: { type: Schema.Types.ObjectId, ref: 'Comment', default: null },
+  body: { type: String, trim: true, maxlength: 2000 },
+  // Resolved when the comment is saved, so a mention keeps pointing at the
+  // same user after a rename.
+  mentions: [
+    {
+      _id: false,
+      username: { type: String, required: true },
+      user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    },
+  ],
+  editedAt: { type: Date, default: null },
+  // Deleted comments with replies stay, without author or body, to keep
+  // their thread together.
+  deletedAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now },
+});
+
+// Keyset pagination of an image's threads, and loading their replies.
+CommentSchema.index({ image: 1, root: 1, createdAt: -1, _id: -1 });
+CommentSchema.index({ root: 1, createdAt: 1 });
+
+const Comment = models?.Comment || model('Comment', CommentSchema);
+
+export default Comment;
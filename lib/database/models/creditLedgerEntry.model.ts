@@ -0,0 +1,58 @@
+import { Document, Schema, model, models } from 'mongoose';
+
+export interface ICreditLedgerEntry extends Document {
+  user: string;
+  amount: number;
+  reason: CreditReason;
+  reference?: CreditReference;
+  details?: Record<string, any>;
+  createdAt?: Date;
+}
+
+/**
+ * One signed change to a user's credit balance. Entries are only ever
+ * appended; corrections are made with a compensating entry.
+ */
+const CreditLedgerEntrySchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  amount: { type: Number, required: true },
+  reason: {
+    type: String,
+    enum: [
+      'signup',
+      'purchase',
+      'subscription',
+      'transformation',
+      'refund',
+      'clawback',
+      'adjustment',
+    ],
+    required: true,
+  },
+  reference: {
+    kind: {
+      type: String,
+      enum: ['transaction', 'image', 'stripe', 'ledger'],
+    },
+    id: { type: String },
+  },
+  details: { type: Object },
+  createdAt: { type: Date, default: Date.now },
+});
+
+// A charge can only ever be refunded once.
+CreditLedgerEntrySchema.index(
+  { 'reference.kind': 1, 'reference.id': 1 },
+  { unique: true, partialFilterExpression: { reason: 'refund' } }
+);
+
+const CreditLedgerEntry =
+  models?.CreditLedgerEntry ||
+  model('CreditLedgerEntry', CreditLedgerEntrySchema);
+
+export default CreditLedgerEntry;
@@ -9,10 +9,26 @@ export interface IImage extends Document {
   height?: number;
   config?: object;
   transformationUrl?: string;
+  derivedPublicId?: string;
   aspectRatio?: string;
   color?: string;
   prompt?: string;
-  author: { _id: string; firstName: string; lastName: string };
+  visibility?: ImageVisibility;
+  shareToken?: string | null;
+  authorName?: string;
+  tags?: string[];
+  remixOf?: string | null;
+  viewCount?: number;
+  likeCount?: number;
+  // Whether the signed-in user liked the image, set when listing images.
+  isLiked?: boolean;
+  author: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    username?: string;
+    photo?: string;
+  };
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -38,14 +54,62 @@ const ImageSchema = new Schema({
   height: { type: Number },
   config: { type: Object },
   transformationUrl: { type: String },
+  derivedPublicId: { type: String },
   aspectRatio: { type: String },
   color: { type: String },
   prompt: { type: String },
+  visibility: {
+    type: String,
+    enum: ['private', 'unlisted', 'public'],
+    default: 'public',
+  },
+  shareToken: { type: String },
+  // Copied from the author so search can match it; kept in sync by updateUser.
+  authorName: { type: String },
+  // Normalized by normalizeTags before saving.
+  tags: { type: [String], default: [] },
+  // The image this one was remixed from.
+  remixOf: { type: Schema.Types.ObjectId, ref: 'Image', default: null },
+  viewCount: { type: Number, default: 0 },
+  likeCount: { type: Number, default: 0 },
   author: { type: Schema.Types.ObjectId, ref: 'User' },
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date, default: Date.now },
 });
 
+// Keyset pagination of the gallery and of each user's images.
+ImageSchema.index({ updatedAt: -1, _id: -1 });
+ImageSchema.index({ author: 1, updatedAt: -1, _id: -1 });
+
+// Lists the remixes of an image.
+ImageSchema.index({ remixOf: 1, createdAt: -1 });
+
+// Tag pages, tag filters and tag autocomplete.
+ImageSchema.index({ tags: 1, updatedAt: -1, _id: -1 });
+
+// Powers search in getAllImages. A collection can only have one text index.
+ImageSchema.index(
+  {
+    title: 'text',
+    prompt: 'text',
+    color: 'text',
+    transformationType: 'text',
+    authorName: 'text',
+    tags: 'text',
+  },
+  {
+    name: 'image_search',
+    weights: {
+      title: 10,
+      prompt: 5,
+      tags: 4,
+      authorName: 3,
+      color: 2,
+      transformationType: 2,
+    },
+  }
+);
+
 const Image = models?.Image || model('Image', ImageSchema);
 
 export default Image;
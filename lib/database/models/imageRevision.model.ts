@@ -0,0 +1,48 @@
+import { Document, Schema, model, models } from 'mongoose';
+
+export interface IImageRevision extends Document {
+  image: string;
+  title: string;
+  transformationType: string;
+  publicId: string;
+  secureURL: string;
+  width?: number;
+  height?: number;
+  config?: object;
+  transformationUrl?: string;
+  derivedPublicId?: string;
+  aspectRatio?: string;
+  color?: string;
+  prompt?: string;
+  createdAt?: Date;
+}
+
+/**
+ * A snapshot of an image's editable fields, taken just before it changed.
+ */
+const ImageRevisionSchema = new Schema({
+  image: {
+    type: Schema.Types.ObjectId,
+    ref: 'Image',
+    required: true,
+    index: true,
+  },
+  title: { type: String, required: true },
+  transformationType: { type: String, required: true },
+  publicId: { type: String, required: true },
+  secureURL: { type: String, required: true },
+  width: { type: Number },
+  height: { type: Number },
+  config: { type: Object },
+  transformationUrl: { type: String },
+  derivedPublicId: { type: String },
+  aspectRatio: { type: String },
+  color: { type: String },
+  prompt: { type: String },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const ImageRevision =
+  models?.ImageRevision || model('ImageRevision', ImageRevisionSchema);
+
+export default ImageRevision;
@@ -0,0 +1,32 @@
+import { Document, Schema, model, models } from 'mongoose';
+
+export interface ILike extends Document {
+  user: string;
+  image: string;
+  createdAt?: Date;
+}
+
+/**
+ * A user's like of an image. Image.likeCount is kept in step with these
+ * documents, so the gallery can sort by likes without counting them.
+ */
+const LikeSchema = new Schema({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  image: {
+    type: Schema.Types.ObjectId,
+    ref: 'Image',
+    required: true,
+    index: true,
+  },
+  createdAt: { type: Date, default: Date.now },
+});
+
+// A user can like an image only once.
+LikeSchema.index({ user: 1, image: 1 }, { unique: true });
+
+// Keyset pagination of each user's favorites.
+LikeSchema.index({ user: 1, createdAt: -1, _id: -1 });
+
+const Like = models?.Like || model('Like', LikeSchema);
+
+export default Like;
@@ -0,0 +1,35 @@
+import { Document, Schema, model, models } from 'mongoose';
+
+export interface IPreset extends Document {
+  author: string;
+  name: string;
+  transformationType: TransformationTypeKey;
+  config?: object;
+  aspectRatio?: string;
+  prompt?: string;
+  color?: string;
+  createdAt?: Date;
+}
+
+/**
+ * A named set of transformation options a user can apply again in one click.
+ */
+const PresetSchema = new Schema({
+  author: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  name: { type: String, required: true, trim: true, maxlength: 60 },
+  transformationType: { type: String, required: true },
+  config: { type: Object },
+  aspectRatio: { type: String },
+  prompt: { type: String },
+  color: { type: String },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const Preset = models?.Preset || model('Preset', PresetSchema);
+
+export default Preset;
@@ -0,0 +1,46 @@
+import { Document, Schema, model, models } from 'mongoose';
+
+export interface IPromoCode extends Document {
+  code: string;
+  kind: PromoCodeKind;
+  value: number;
+  expiresAt?: Date | null;
+  maxRedemptions?: number | null;
+  perUserLimit: number;
+  redemptionCount: number;
+  active: boolean;
+  createdAt?: Date;
+}
+
+/**
+ * A code that lowers the price of a credit package or adds credits to it.
+ * `value` is a percentage for 'percent_off', dollars for 'fixed_off' and
+ * credits for 'bonus_credits'. Codes are stored upper case.
+ */
+const PromoCodeSchema = new Schema({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true,
+  },
+  kind: {
+    type: String,
+    enum: ['percent_off', 'fixed_off', 'bonus_credits'],
+    required: true,
+  },
+  value: { type: Number, required: true, min: 0 },
+  // No expiry or redemption limit when null.
+  expiresAt: { type: Date, default: null },
+  maxRedemptions: { type: Number, default: null },
+  perUserLimit: { type: Number, default: 1 },
+  // Paid purchases made with the code, and open checkouts holding a use.
+  redemptionCount: { type: Number, default: 0 },
+  active: { type: Boolean, default: true },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const PromoCode = models?.PromoCode || model('PromoCode', PromoCodeSchema);
+
+export default PromoCode;
@@ -0,0 +1,30 @@
+import { Document, Schema, model, models } from 'mongoose';
+
+export interface IPromoCodeReservation extends Document {
+  code: string;
+  user: string;
+  checkoutSessionId?: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * A use of a promo code held by a checkout that was not paid yet. It is
+ * removed once the checkout is paid, when the purchase's Transaction takes
+ * over counting the use, or once the checkout expires.
+ */
+const PromoCodeReservationSchema = new Schema({
+  code: { type: String, required: true },
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  // Set once Stripe has created the checkout.
+  checkoutSessionId: { type: String, default: null },
+  createdAt: { type: Date, default: Date.now },
+});
+
+// The per-user limit counts each user's open checkouts with a code.
+PromoCodeReservationSchema.index({ code: 1, user: 1 });
+
+const PromoCodeReservation =
+  models?.PromoCodeReservation ||
+  model('PromoCodeReservation', PromoCodeReservationSchema);
+
+export default PromoCodeReservation;
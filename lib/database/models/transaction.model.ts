@@ -1,8 +1,33 @@
-import { Schema, model, models } from 'mongoose';
+import { Document, Schema, model, models } from 'mongoose';
+
+export interface ITransaction extends Document {
+  stripeId: string;
+  paymentIntentId?: string | null;
+  amount: number;
+  plan?: string;
+  credits?: number;
+  buyer: string;
+  promoCode?: string | null;
+  discount: number;
+  bonusCredits: number;
+  status: TransactionStatus;
+  refundedAmount: number;
+  refundedCredits: number;
+  events: {
+    type: TransactionEventType;
+    stripeId: string;
+    amount: number;
+    credits: number;
+    createdAt?: Date;
+  }[];
+  createdAt?: Date;
+}
 
 const TransactionSchema = new Schema({
   createdAt: { type: Date, default: Date.now },
   stripeId: { type: String, required: true, unique: true },
+  // The Stripe payment; refunds and disputes find the transaction by it.
+  paymentIntentId: { type: String, index: true },
   amount: { type: Number, required: true },
   plan: { type: String },
   credits: { type: Number },
@@ -10,8 +35,49 @@ const TransactionSchema = new Schema({
     type: Schema.Types.ObjectId,
     ref: 'User',
   },
+  // The promo code of the purchase, the dollars it took off and the
+  // credits it added; `credits` and `amount` already include both.
+  promoCode: { type: String, default: null },
+  discount: { type: Number, default: 0 },
+  bonusCredits: { type: Number, default: 0 },
+  status: {
+    type: String,
+    enum: [
+      'paid',
+      'partially_refunded',
+      'refunded',
+      'disputed',
+      'dispute_won',
+      'dispute_lost',
+    ],
+    default: 'paid',
+  },
+  // Money refunded so far, and the credits owed back for it.
+  refundedAmount: { type: Number, default: 0 },
+  refundedCredits: { type: Number, default: 0 },
+  // What happened to the payment after it was made, oldest first. `credits`
+  // is what was actually taken back, or given back for a won dispute.
+  events: [
+    new Schema(
+      {
+        type: {
+          type: String,
+          enum: ['refund', 'dispute_opened', 'dispute_won', 'dispute_lost'],
+          required: true,
+        },
+        stripeId: { type: String, required: true },
+        amount: { type: Number, default: 0 },
+        credits: { type: Number, default: 0 },
+        createdAt: { type: Date, default: Date.now },
+      },
+      { _id: false }
+    ),
+  ],
 });
 
+// The billing history lists a user's transactions, newest first.
+TransactionSchema.index({ buyer: 1, createdAt: -1, _id: -1 });
+
 const Transaction =
   models?.Transaction || model('Transaction', TransactionSchema);
 
@@ -0,0 +1,50 @@
+import { Document, Schema, model, models } from 'mongoose';
+
+export interface ITransformationJob extends Document {
+  user: string;
+  chargeId: string;
+  transformationType: string;
+  publicId: string;
+  width?: number;
+  height?: number;
+  aspectRatio?: string;
+  config?: object;
+  status: TransformationJobStatus;
+  attempts: number;
+  derivedPublicId?: string;
+  derivedURL?: string;
+  error?: string;
+  refundedCredits?: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const TransformationJobSchema = new Schema({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  chargeId: { type: String, required: true },
+  transformationType: { type: String, required: true },
+  publicId: { type: String, required: true },
+  width: { type: Number },
+  height: { type: Number },
+  aspectRatio: { type: String },
+  config: { type: Object },
+  status: {
+    type: String,
+    enum: ['queued', 'processing', 'succeeded', 'failed'],
+    default: 'queued',
+    index: true,
+  },
+  attempts: { type: Number, default: 0 },
+  derivedPublicId: { type: String },
+  derivedURL: { type: String },
+  error: { type: String },
+  refundedCredits: { type: Number },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+const TransformationJob =
+  models?.TransformationJob ||
+  model('TransformationJob', TransformationJobSchema);
+
+export default TransformationJob;
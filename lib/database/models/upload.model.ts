@@ -0,0 +1,22 @@
+import { Document, Schema, model, models } from 'mongoose';
+
+export interface IUpload extends Document {
+  publicId: string;
+  user: string;
+  createdAt?: Date;
+}
+
+/**
+ * An asset a user uploaded. Transformations are only run on the caller's
+ * own uploads, the assets their jobs derived, and images they may view.
+ */
+const UploadSchema = new Schema({
+  // Each asset has one uploader.
+  publicId: { type: String, required: true, unique: true },
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const Upload = models?.Upload || model('Upload', UploadSchema);
+
+export default Upload;
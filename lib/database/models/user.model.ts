@@ -34,6 +34,43 @@ const UserSchema = new Schema({
     type: Number,
     default: 10,
   },
+  stripeCustomerId: {
+    type: String,
+    unique: true,
+    sparse: true,
+  },
+  // The user's current Stripe subscription, kept in sync by the Stripe
+  // webhook. Null when they have none, or it ended.
+  subscription: {
+    type: new Schema(
+      {
+        id: { type: String, required: true },
+        plan: { type: String, required: true },
+        status: { type: String, required: true },
+        currentPeriodEnd: { type: Date },
+      },
+      { _id: false }
+    ),
+    default: null,
+  },
+  // Set while the account is frozen by a refund or dispute, see
+  // `clawbackPolicy`. A frozen account cannot spend credits.
+  frozen: {
+    type: new Schema(
+      {
+        reason: { type: String, enum: ['refund', 'dispute'], required: true },
+        transaction: { type: Schema.Types.ObjectId, ref: 'Transaction' },
+        createdAt: { type: Date, default: Date.now },
+      },
+      { _id: false }
+    ),
+    default: null,
+  },
+  // Missing on users created before it existed; their _id has the date.
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
 });
 
 const User = models?.User || model('User', UserSchema);
@@ -0,0 +1,28 @@
+import { Document, Schema, model, models } from 'mongoose';
+
+export interface IView extends Document {
+  image: string;
+  viewer: string;
+  createdAt?: Date;
+}
+
+// A viewer's views of an image count once in this window.
+export const VIEW_WINDOW_S = 24 * 60 * 60;
+
+/**
+ * A counted view of an image. `viewer` is the viewer's user id, or a hash
+ * of their IP address when signed out. Image.viewCount is kept in step with
+ * these documents, which expire after the view window.
+ */
+const ViewSchema = new Schema({
+  image: { type: Schema.Types.ObjectId, ref: 'Image', required: true },
+  viewer: { type: String, required: true },
+  createdAt: { type: Date, default: Date.now, expires: VIEW_WINDOW_S },
+});
+
+// A viewer's view counts once per image until it expires.
+ViewSchema.index({ image: 1, viewer: 1 }, { unique: true });
+
+const View = models?.View || model('View', ViewSchema);
+
+export default View;
@@ -0,0 +1,38 @@
+import { Document, Schema, model, models } from 'mongoose';
+
+export interface IWebhookEvent extends Document {
+  eventId: string;
+  type: string;
+  payload: Record<string, any>;
+  status: WebhookEventStatus;
+  attempts: number;
+  error?: string;
+  processedAt?: Date;
+  createdAt?: Date;
+}
+
+/**
+ * A Stripe webhook event as it was received. An event is marked processed
+ * in the same transaction as its effects, so no event takes effect twice,
+ * and failed events keep their payload to be replayed.
+ */
+const WebhookEventSchema = new Schema({
+  eventId: { type: String, required: true, unique: true },
+  type: { type: String, required: true },
+  payload: { type: Object, required: true },
+  status: {
+    type: String,
+    enum: ['received', 'processed', 'failed'],
+    default: 'received',
+    index: true,
+  },
+  attempts: { type: Number, default: 0 },
+  error: { type: String },
+  processedAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const WebhookEvent =
+  models?.WebhookEvent || model('WebhookEvent', WebhookEventSchema);
+
+export default WebhookEvent;
@@ -0,0 +1,264 @@
+import { transactionEvents, transactionStatuses } from '@/constants';
+
+import { PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, PdfItem, renderPdf } from './pdf';
+import { getAuthorName } from './utils';
+
+// The seller shown on every invoice. COMPANY_ADDRESS lines are separated
+// by semicolons.
+export const companyDetails = {
+  name: process.env.COMPANY_NAME || 'Imaginify',
+  address: (process.env.COMPANY_ADDRESS || '')
+    .split(';')
+    .map((line) => line.trim())
+    .filter(Boolean),
+  email: process.env.COMPANY_EMAIL || '',
+  taxId: process.env.COMPANY_TAX_ID || '',
+};
+
+const MARGIN = 56;
+const LINE_HEIGHT = 16;
+
+// Where a page's content starts, and where it must end to clear the footer.
+const PAGE_TOP = PDF_PAGE_HEIGHT - MARGIN - 20;
+const PAGE_BOTTOM = MARGIN + LINE_HEIGHT * 2;
+
+// Left edges of the credits and amount columns.
+const CREDITS_X = 360;
+const AMOUNT_X = 470;
+
+const formatAmount = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+/**
+ * The invoice number of a transaction: its date and its id, so numbers sort
+ * by date and never collide.
+ */
+export const getInvoiceNumber = (transaction: {
+  _id: { toString(): string };
+  createdAt?: Date;
+}) =>
+  `INV-${new Date(transaction.createdAt ?? Date.now())
+    .toISOString()
+    .slice(0, 10)
+    .replace(/-/g, '')}-${transaction._id.toString().toUpperCase()}`;
+
+/**
+ * Renders the PDF invoice of a transaction, with the company's details, the
+ * buyer's name and email, and any refunds and disputes of the payment. A long
+ * payment history continues on further pages.
+ */
+export const renderInvoice = (
+  transaction: any,
+  buyer: {
+    firstName?: string | null;
+    lastName?: string | null;
+    username?: string | null;
+    email: string;
+  }
+) => {
+  const invoiceNumber = getInvoiceNumber(transaction);
+  let items: PdfItem[] = [];
+  const pages = [items];
+  let y = PAGE_TOP;
+
+  // Starts a new page unless the next `height` points fit on this one.
+  const reserve = (height: number) => {
+    if (y - height >= PAGE_BOTTOM) return;
+
+    items = [];
+    pages.push(items);
+    y = PAGE_TOP;
+    items.push({
+      text: `${companyDetails.name} - Invoice ${invoiceNumber} (continued)`,
+      x: MARGIN,
+      y,
+      bold: true,
+    });
+    y -= LINE_HEIGHT * 2;
+  };
+
+  const addLine = () => {
+    items.push({ line: [MARGIN, y, PDF_PAGE_WIDTH - MARGIN, y] });
+    y -= LINE_HEIGHT + 4;
+  };
+
+  // HEADER
+  items.push(
+    { text: companyDetails.name, x: MARGIN, y, size: 20, bold: true },
+    { text: 'INVOICE', x: AMOUNT_X - 20, y, size: 20, bold: true }
+  );
+  y -= LINE_HEIGHT * 2;
+
+  const sellerLines = [
+    ...companyDetails.address,
+    companyDetails.email,
+    companyDetails.taxId && `Tax ID: ${companyDetails.taxId}`,
+  ].filter(Boolean) as string[];
+
+  const invoiceLines = [
+    ['Invoice', invoiceNumber],
+    ['Date', formatDate(transaction.createdAt)],
+    [
+      'Status',
+      transactionStatuses[transaction.status as TransactionStatus]?.label ??
+        'Paid',
+    ],
+  ];
+
+  const headerTop = y;
+
+  sellerLines.forEach((line) => {
+    items.push({ text: line, x: MARGIN, y });
+    y -= LINE_HEIGHT;
+  });
+
+  invoiceLines.forEach(([label, value], index) => {
+    const lineY = headerTop - index * LINE_HEIGHT;
+
+    items.push(
+      { text: label, x: CREDITS_X - 40, y: lineY, bold: true },
+      { text: value, x: CREDITS_X + 20, y: lineY }
+    );
+  });
+
+  y = Math.min(y, headerTop - invoiceLines.length * LINE_HEIGHT);
+  y -= LINE_HEIGHT;
+
+  // BUYER
+  items.push({ text: 'Bill to', x: MARGIN, y, size: 11, bold: true });
+  y -= LINE_HEIGHT;
+  items.push({ text: getAuthorName(buyer), x: MARGIN, y });
+  y -= LINE_HEIGHT;
+  items.push({ text: buyer.email, x: MARGIN, y });
+  y -= LINE_HEIGHT * 2;
+
+  // LINE ITEMS
+  items.push(
+    { text: 'Description', x: MARGIN, y, bold: true },
+    { text: 'Credits', x: CREDITS_X, y, bold: true },
+    { text: 'Amount', x: AMOUNT_X, y, bold: true }
+  );
+  y -= 8;
+  addLine();
+
+  const discount = transaction.discount ?? 0;
+  const bonusCredits = transaction.bonusCredits ?? 0;
+
+  // The package is listed at its full price, followed by what its promo
+  // code took off or added.
+  const lineItems: [string, number, number][] = [
+    [
+      transaction.plan || 'Credits',
+      (transaction.credits ?? 0) - bonusCredits,
+      transaction.amount + discount,
+    ],
+  ];
+
+  if (discount > 0) {
+    lineItems.push([`Promo code ${transaction.promoCode}`, 0, -discount]);
+  }
+
+  if (bonusCredits > 0) {
+    lineItems.push([
+      `Bonus credits (promo code ${transaction.promoCode})`,
+      bonusCredits,
+      0,
+    ]);
+  }
+
+  lineItems.forEach(([description, credits, amount], index) => {
+    if (index > 0) y -= LINE_HEIGHT;
+
+    items.push(
+      { text: description, x: MARGIN, y },
+      { text: String(credits), x: CREDITS_X, y },
+      { text: formatAmount(amount), x: AMOUNT_X, y }
+    );
+  });
+  y -= LINE_HEIGHT - 2;
+  // Stripe ids are long, so the reference gets a line of its own.
+  items.push({
+    text: `Stripe reference: ${transaction.stripeId}`,
+    x: MARGIN,
+    y,
+    size: 8,
+  });
+  y -= 8;
+  addLine();
+
+  const totals: [string, number][] = [['Total paid', transaction.amount]];
+
+  if (transaction.refundedAmount > 0) {
+    totals.push(
+      ['Refunded', -transaction.refundedAmount],
+      ['Net paid', transaction.amount - transaction.refundedAmount]
+    );
+  }
+
+  totals.forEach(([label, amount]) => {
+    reserve(LINE_HEIGHT);
+    items.push(
+      { text: label, x: CREDITS_X, y, bold: true },
+      { text: formatAmount(amount), x: AMOUNT_X, y, bold: true }
+    );
+    y -= LINE_HEIGHT;
+  });
+
+  // HISTORY
+  if (transaction.events?.length > 0) {
+    y -= LINE_HEIGHT;
+    // Keep the heading with the first event.
+    reserve(LINE_HEIGHT * 2);
+    items.push({ text: 'Payment history', x: MARGIN, y, size: 11, bold: true });
+    y -= LINE_HEIGHT;
+
+    transaction.events.forEach((event: any) => {
+      const type = event.type as TransactionEventType;
+
+      reserve(LINE_HEIGHT);
+      items.push({
+        text: [
+          formatDate(event.createdAt),
+          `${transactionEvents[type].label} ${formatAmount(event.amount)}`,
+          event.credits > 0 &&
+            `${event.credits} ${transactionEvents[type].credits}`,
+        ]
+          .filter(Boolean)
+          .join(' - '),
+        x: MARGIN,
+        y,
+      });
+      y -= LINE_HEIGHT;
+    });
+  }
+
+  // FOOTER
+  const footer = [
+    'Paid by card through Stripe.',
+    companyDetails.email && `Questions? Write to ${companyDetails.email}.`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  pages.forEach((pageItems, index) => {
+    pageItems.push({ text: footer, x: MARGIN, y: MARGIN, size: 9 });
+
+    if (pages.length > 1) {
+      pageItems.push({
+        text: `Page ${index + 1} of ${pages.length}`,
+        x: AMOUNT_X,
+        y: MARGIN,
+        size: 9,
+      });
+    }
+  });
+
+  return renderPdf(pages);
+};
@@ -0,0 +1,189 @@
+import mongoose from 'mongoose';
+
+import TransformationJob from './database/models/transformationJob.model';
+import { connectToDatabase } from './database/mongoose';
+import { refundCharge } from './credits';
+import { getImageProvider } from './providers';
+
+// Providers such as Cloudinary generate AI transformations asynchronously,
+// so a derived asset can take a while to become available.
+const MAX_POLLS = 20;
+const POLL_INTERVAL_MS = 3000;
+
+// A job whose worker has not checked in for this long was abandoned, e.g.
+// because its server process was recycled. Workers check in on every poll.
+const STALE_JOB_MS = 2 * 60 * 1000;
+
+// A job is given up on, and refunded, after this many runs.
+const MAX_ATTEMPTS = 3;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// The run of a job: it is still processing, and no later run took over.
+const runOf = (job: any) => ({
+  _id: job._id,
+  status: 'processing',
+  attempts: job.attempts,
+});
+
+/**
+ * Marks a job failed and refunds its charge in one transaction, unless the
+ * run has been taken over meanwhile: only the run that fails the job
+ * refunds it.
+ */
+const failJob = async (job: any, error: unknown) => {
+  await mongoose.connection.transaction(async (session) => {
+    const failed = await TransformationJob.findOneAndUpdate(
+      runOf(job),
+      {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        updatedAt: new Date(),
+      },
+      { session }
+    );
+
+    if (!failed) return;
+
+    const refund = await refundCharge(
+      job.chargeId,
+      job.user.toString(),
+      session
+    ).catch(() => null);
+
+    await TransformationJob.updateOne(
+      { _id: job._id },
+      { refundedCredits: refund?.amount ?? 0 },
+      { session }
+    );
+  });
+};
+
+/**
+ * Creates the derived asset of a job this worker has claimed. On success the
+ * job points at the derived asset; on failure the charge is refunded. Stops
+ * as soon as the job is taken over by another run.
+ */
+const runJob = async (job: any) => {
+  try {
+    const provider = getImageProvider();
+    const params = {
+      publicId: job.publicId,
+      width: job.width,
+      height: job.height,
+      config: job.config,
+    };
+
+    let asset: UploadedAsset | null = null;
+
+    for (let poll = 0; poll < MAX_POLLS && !asset; poll++) {
+      if (poll > 0) {
+        await sleep(POLL_INTERVAL_MS);
+
+        const checkIn = await TransformationJob.updateOne(runOf(job), {
+          updatedAt: new Date(),
+        });
+
+        if (!checkIn.matchedCount) return;
+      }
+
+      asset = await provider.createDerivedAsset(params);
+    }
+
+    if (!asset) throw new Error('Timed out waiting for the transformation');
+
+    await TransformationJob.updateOne(runOf(job), {
+      status: 'succeeded',
+      derivedPublicId: asset.publicId,
+      derivedURL: asset.secureURL,
+      updatedAt: new Date(),
+    });
+  } catch (error) {
+    await failJob(job, error);
+  }
+};
+
+/**
+ * Runs a queued transformation job to completion.
+ *
+ * The job is claimed with an atomic queued -> processing update, so it is
+ * safe to call this from several workers at once.
+ */
+export async function processTransformationJob(jobId: string) {
+  await connectToDatabase();
+
+  const job = await TransformationJob.findOneAndUpdate(
+    { _id: jobId, status: 'queued' },
+    {
+      status: 'processing',
+      $inc: { attempts: 1 },
+      updatedAt: new Date(),
+    },
+    { new: true }
+  );
+
+  if (job) await runJob(job);
+}
+
+/**
+ * Puts a job whose worker stopped checking in back in the queue, or fails
+ * and refunds it once it has run out of attempts. Cheap enough to call
+ * whenever a job's status is read, so an abandoned job never holds its
+ * credits for long; the worker then runs the job again.
+ *
+ * The old run, should it still be going, can no longer finish the job.
+ */
+export async function requeueStaleJob(jobId: string) {
+  await connectToDatabase();
+
+  const job = await TransformationJob.findOne({
+    _id: jobId,
+    status: 'processing',
+    updatedAt: { $lt: new Date(Date.now() - STALE_JOB_MS) },
+  });
+
+  if (!job) return;
+
+  if (job.attempts >= MAX_ATTEMPTS) {
+    await failJob(job, new Error('The transformation was abandoned'));
+    return;
+  }
+
+  await TransformationJob.updateOne(
+    { ...runOf(job), updatedAt: job.updatedAt },
+    { status: 'queued', updatedAt: new Date() }
+  );
+}
+
+/**
+ * Requeues jobs whose worker died mid-run, then processes every queued job,
+ * oldest first. Used by the standalone worker script.
+ */
+export async function processQueuedJobs() {
+  await connectToDatabase();
+
+  const staleJobs = await TransformationJob.find(
+    {
+      status: 'processing',
+      updatedAt: { $lt: new Date(Date.now() - STALE_JOB_MS) },
+    },
+    '_id'
+  );
+
+  let processed = 0;
+
+  for (const job of staleJobs) {
+    await requeueStaleJob(job._id.toString());
+  }
+
+  for (;;) {
+    const job = await TransformationJob.findOne({ status: 'queued' }).sort({
+      createdAt: 1,
+    });
+
+    if (!job) return processed;
+
+    await processTransformationJob(job._id.toString());
+    processed++;
+  }
+}
@@ -0,0 +1,24 @@
+import Like from './database/models/like.model';
+
+/**
+ * Sets `isLiked` on each of the given plain images: whether the user with
+ * the given id liked it. Without a user, no image is liked.
+ */
+export async function markLikedImages(images: any[], userId?: unknown) {
+  const likes =
+    userId && images.length > 0
+      ? await Like.find(
+          { user: userId, image: { $in: images.map((image) => image._id) } },
+          'image'
+        ).lean()
+      : [];
+
+  const likedImageIds = new Set(
+    likes.map((like: any) => like.image.toString())
+  );
+
+  return images.map((image) => ({
+    ...image,
+    isLiked: likedImageIds.has(image._id.toString()),
+  }));
+}
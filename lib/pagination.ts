@@ -0,0 +1,166 @@
+import { mongo } from 'mongoose';
+
+const { EJSON } = mongo.BSON;
+
+type SortDirection = 1 | -1;
+
+// Cursors are opaque to clients: base64url-encoded extended JSON, so dates
+// and ObjectIds survive the round trip.
+type CursorPayload = {
+  // Sort key values of the document the page starts after (or before).
+  values?: unknown[];
+  before?: boolean;
+  // Ranked sorts such as text relevance cannot be expressed as a range, so
+  // their cursors fall back to an offset.
+  offset?: number;
+};
+
+const encodeCursor = (payload: CursorPayload) =>
+  Buffer.from(EJSON.stringify(payload)).toString('base64url');
+
+const decodeCursor = (cursor?: string | null): CursorPayload | null => {
+  if (!cursor) return null;
+
+  try {
+    return EJSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (error) {
+    return null;
+  }
+};
+
+// Only plain values may come out of a cursor, never query operators.
+const isCursorValue = (value: unknown) =>
+  value === null ||
+  ['string', 'number', 'boolean'].includes(typeof value) ||
+  value instanceof Date ||
+  value instanceof mongo.ObjectId;
+
+/**
+ * Matches the documents strictly past `value` on one sort key. Missing values
+ * sort lowest in MongoDB, so they are past any value when going down.
+ */
+const beyond = (key: string, value: unknown, operator: '$gt' | '$lt') => {
+  if (value === null) {
+    return operator === '$gt' ? { [key]: { $ne: null } } : null;
+  }
+
+  return operator === '$gt'
+    ? { [key]: { $gt: value } }
+    : { $or: [{ [key]: { $lt: value } }, { [key]: null }] };
+};
+
+/**
+ * Builds the range filter for the documents that come after the given sort
+ * key values, or before them when `before` is set.
+ */
+const keysetFilter = (
+  keys: [string, SortDirection][],
+  values: unknown[],
+  before: boolean
+) => {
+  const branches = keys
+    .map(([key, direction], index) => {
+      const range = beyond(
+        key,
+        values[index],
+        (direction === 1) !== before ? '$gt' : '$lt'
+      );
+
+      if (!range) return null;
+
+      const ties = keys
+        .slice(0, index)
+        .map(([tieKey], tieIndex) => ({ [tieKey]: values[tieIndex] }));
+
+      return { $and: [...ties, range] };
+    })
+    .filter(Boolean);
+
+  return { $or: branches };
+};
+
+/**
+ * Runs one page of a query with keyset pagination.
+ *
+ * `sort` is extended with `_id` as a tie-breaker, and the cursors point at
+ * the first and last documents of the page, so deep pages cost the same as
+ * the first one. `run` receives an extra filter to combine with the caller's
+ * own, and must return plain (lean) documents.
+ */
+export async function paginate<T extends Record<string, any>>({
+  sort,
+  cursor,
+  limit,
+  run,
+}: {
+  sort: Record<string, any>;
+  cursor?: string | null;
+  limit: number;
+  run: (
+    filter: Record<string, any>,
+    sort: Record<string, any>,
+    skip: number,
+    limit: number
+  ) => Promise<T[]>;
+}) {
+  const payload = decodeCursor(cursor);
+
+  if (Object.values(sort).some((direction) => typeof direction === 'object')) {
+    const offset = Math.max(0, Number(payload?.offset) || 0);
+    const docs = await run({}, sort, offset, limit + 1);
+
+    return {
+      data: docs.slice(0, limit),
+      nextCursor:
+        docs.length > limit ? encodeCursor({ offset: offset + limit }) : null,
+      prevCursor:
+        offset > 0
+          ? encodeCursor({ offset: Math.max(0, offset - limit) })
+          : null,
+    };
+  }
+
+  const directions = Object.values(sort) as SortDirection[];
+  const keys: [string, SortDirection][] = [
+    ...(Object.entries(sort) as [string, SortDirection][]),
+    ['_id', directions[directions.length - 1] ?? -1],
+  ];
+
+  const values =
+    Array.isArray(payload?.values) &&
+    payload.values.length === keys.length &&
+    payload.values.every(isCursorValue)
+      ? payload.values
+      : null;
+  const before = !!values && payload?.before === true;
+
+  const docs = await run(
+    values ? keysetFilter(keys, values, before) : {},
+    Object.fromEntries(
+      keys.map(([key, direction]) => [key, before ? -direction : direction])
+    ),
+    0,
+    limit + 1
+  );
+
+  const hasMore = docs.length > limit;
+  const page = docs.slice(0, limit);
+
+  if (before) page.reverse();
+
+  const valuesOf = (doc: T) => keys.map(([key]) => doc[key] ?? null);
+  const first = page[0];
+  const last = page[page.length - 1];
+
+  return {
+    data: page,
+    nextCursor:
+      last && (before || hasMore)
+        ? encodeCursor({ values: valuesOf(last) })
+        : null,
+    prevCursor:
+      first && (before ? hasMore : !!values)
+        ? encodeCursor({ values: valuesOf(first), before: true })
+        : null,
+  };
+}
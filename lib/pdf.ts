@@ -0,0 +1,91 @@
+// A minimal PDF writer for text documents such as invoices: text in the
+// standard Helvetica fonts and thin rules, on US Letter pages.
+// Nothing is embedded, so every PDF reader can show the result as is.
+
+export const PDF_PAGE_WIDTH = 612;
+export const PDF_PAGE_HEIGHT = 792;
+
+export type PdfItem =
+  | { text: string; x: number; y: number; size?: number; bold?: boolean }
+  | { line: [number, number, number, number] };
+
+/**
+ * Makes text safe for a PDF string literal. The standard fonts only cover
+ * Latin-1, so any other character becomes a question mark.
+ */
+const escapeText = (text: string) =>
+  Array.from(text)
+    .map((char) => {
+      const code = char.charCodeAt(0);
+
+      if (char.length > 1 || code > 255) return '?';
+      if (code < 32 || (code >= 127 && code < 160)) return ' ';
+
+      return char;
+    })
+    .join('')
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+
+const renderItem = (item: PdfItem) => {
+  if ('line' in item) {
+    const [x1, y1, x2, y2] = item.line;
+
+    return `0.8 G 0.5 w ${x1} ${y1} m ${x2} ${y2} l S`;
+  }
+
+  const font = item.bold ? '/F2' : '/F1';
+
+  return `BT ${font} ${item.size ?? 10} Tf ${item.x} ${item.y} Td (${escapeText(
+    item.text
+  )}) Tj ET`;
+};
+
+/**
+ * Renders a PDF with one page per list of items. Coordinates are in points,
+ * from the bottom left corner of each page.
+ */
+export const renderPdf = (pages: PdfItem[][]) => {
+  // The catalog, page tree and fonts come first, then each page followed by
+  // its content stream.
+  const pageId = (index: number) => 5 + index * 2;
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages
+      .map((_, index) => `${pageId(index)} 0 R`)
+      .join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ...pages.flatMap((items, index) => {
+      const content = items.map(renderItem).join('\n');
+
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+            pageId(index) + 1
+          } 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      ];
+    }),
+  ];
+
+  // Every character is a single byte, so string lengths are byte offsets.
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`)
+    .join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n`;
+  pdf += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+};
@@ -0,0 +1,214 @@
+import mongoose, { ClientSession } from 'mongoose';
+
+import PromoCode from './database/models/promoCode.model';
+import PromoCodeReservation from './database/models/promoCodeReservation.model';
+import Transaction from './database/models/transaction.model';
+import { connectToDatabase } from './database/mongoose';
+
+// Reserving a code trusts the buyer it is given, so, like `lib/credits.ts`,
+// these helpers stay out of `lib/actions`.
+
+// Stripe cannot charge less than 50 cents.
+const MINIMUM_AMOUNT = 0.5;
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+/**
+ * Describes what a promo code gives, e.g. "20% off" or "50 bonus credits".
+ */
+export const describePromoCode = ({
+  kind,
+  value,
+}: {
+  kind: PromoCodeKind;
+  value: number;
+}) => {
+  if (kind === 'percent_off') return `${value}% off`;
+  if (kind === 'fixed_off') return `$${value.toFixed(2)} off`;
+
+  return `${value} bonus credits`;
+};
+
+/**
+ * Prices a credit package with an optional promo code. Discounts never take
+ * the price below what Stripe can charge.
+ */
+export const priceWithPromoCode = (
+  plan: { price: number; credits: number },
+  promoCode?: { kind: PromoCodeKind; value: number } | null
+) => {
+  let discount = 0;
+
+  if (promoCode?.kind === 'percent_off') {
+    discount = (plan.price * Math.min(promoCode.value, 100)) / 100;
+  }
+
+  if (promoCode?.kind === 'fixed_off') discount = promoCode.value;
+
+  const amount = Math.max(
+    Math.round((plan.price - discount) * 100) / 100,
+    Math.min(plan.price, MINIMUM_AMOUNT)
+  );
+  const bonusCredits =
+    promoCode?.kind === 'bonus_credits' ? Math.floor(promoCode.value) : 0;
+
+  return {
+    amount,
+    credits: plan.credits + bonusCredits,
+    discount: Math.round((plan.price - amount) * 100) / 100,
+    bonusCredits,
+  };
+};
+
+/**
+ * Counts a user's uses of a promo code: paid purchases, and checkouts that
+ * hold a use.
+ */
+const countUserRedemptions = async (
+  code: string,
+  userId: string,
+  session?: ClientSession
+) => {
+  const paid = await Transaction.countDocuments(
+    { buyer: userId, promoCode: code },
+    { session }
+  );
+  const held = await PromoCodeReservation.countDocuments(
+    { code, user: userId },
+    { session }
+  );
+
+  return paid + held;
+};
+
+/**
+ * Finds an active promo code the given user can still redeem.
+ *
+ * Throws an error saying why if the code is unknown, expired, used up, or
+ * already used by the user as often as allowed.
+ */
+export async function findRedeemablePromoCode(code: string, userId: string) {
+  await connectToDatabase();
+
+  const promoCode = await PromoCode.findOne({
+    code: normalizePromoCode(code),
+    active: true,
+  });
+
+  if (!promoCode) throw new Error('Promo code not found');
+
+  if (promoCode.expiresAt && promoCode.expiresAt <= new Date()) {
+    throw new Error('Promo code has expired');
+  }
+
+  if (
+    promoCode.maxRedemptions !== null &&
+    promoCode.redemptionCount >= promoCode.maxRedemptions
+  ) {
+    throw new Error('Promo code has been used up');
+  }
+
+  if (
+    (await countUserRedemptions(promoCode.code, userId)) >=
+    promoCode.perUserLimit
+  ) {
+    throw new Error('You have already used this promo code');
+  }
+
+  return promoCode;
+}
+
+/**
+ * Takes one use of a promo code for a checkout of the given user about to
+ * start, and returns the reservation holding it. The reservation is removed
+ * when the checkout is paid or expires, see `redeemPromoCode` and
+ * `releasePromoCode`.
+ *
+ * Every reservation updates the code, so reservations racing for the last
+ * use, or for the user's last use, conflict and run one after the other.
+ *
+ * Throws an error if the code cannot be used anymore, or not by this user.
+ */
+export async function reservePromoCode(code: string, userId: string) {
+  await connectToDatabase();
+
+  let reservation: any = null;
+
+  await mongoose.connection.transaction(async (session) => {
+    const promoCode = await PromoCode.findOneAndUpdate(
+      {
+        code: normalizePromoCode(code),
+        active: true,
+        $and: [
+          { $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }] },
+          {
+            $or: [
+              { maxRedemptions: null },
+              { $expr: { $lt: ['$redemptionCount', '$maxRedemptions'] } },
+            ],
+          },
+        ],
+      },
+      { $inc: { redemptionCount: 1 } },
+      { new: true, session }
+    );
+
+    if (!promoCode) throw new Error('Promo code has expired or been used up');
+
+    const userRedemptions = await countUserRedemptions(
+      promoCode.code,
+      userId,
+      session
+    );
+
+    if (userRedemptions >= promoCode.perUserLimit) {
+      throw new Error('You have already used this promo code');
+    }
+
+    [reservation] = await PromoCodeReservation.create(
+      [{ code: promoCode.code, user: userId }],
+      { session }
+    );
+  });
+
+  return reservation;
+}
+
+/**
+ * Gives back the use of a promo code a checkout reserved, when the checkout
+ * never went through. Releasing a reservation twice gives it back once.
+ */
+export async function releasePromoCode(
+  reservationId: string,
+  session?: ClientSession
+) {
+  const release = async (session: ClientSession) => {
+    const reservation = await PromoCodeReservation.findOneAndDelete(
+      { _id: reservationId },
+      { session }
+    );
+
+    if (!reservation) return;
+
+    await PromoCode.updateOne(
+      { code: reservation.code, redemptionCount: { $gt: 0 } },
+      { $inc: { redemptionCount: -1 } },
+      { session }
+    );
+  };
+
+  if (session) await release(session);
+  else await mongoose.connection.transaction(release);
+}
+
+/**
+ * Turns the use a paid checkout reserved into a redemption inside an open
+ * session, before the purchase's transaction is recorded. The use stays
+ * counted; from now on by the transaction.
+ */
+export async function redeemPromoCode(
+  reservationId: string,
+  session: ClientSession
+) {
+  await PromoCodeReservation.deleteOne({ _id: reservationId }, { session });
+}
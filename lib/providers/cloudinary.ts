@@ -0,0 +1,95 @@
+import { v2 as cloudinary } from 'cloudinary';
+
+import { getCloudinaryTransformationUrl } from './url';
+
+const FOLDER = 'imaginify';
+
+const configureCloudinary = () =>
+  cloudinary.config({
+    cloud_name: process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME,
+    api_key: process.env.CLOUDINARY_API_KEY,
+    api_secret: process.env.CLOUDINARY_API_SECRET,
+    secure: true,
+  });
+
+/**
+ * Image provider backed by Cloudinary. Transformations are applied lazily
+ * by Cloudinary when the delivery URL is first requested.
+ */
+export const cloudinaryProvider: ImageProvider = {
+  upload: (file, filename) => {
+    configureCloudinary();
+
+    return new Promise((resolve, reject) => {
+      cloudinary.uploader
+        .upload_stream(
+          {
+            folder: FOLDER,
+            resource_type: 'image',
+            filename_override: filename,
+          },
+          (error, result) => {
+            if (error || !result) return reject(error);
+
+            resolve({
+              publicId: result.public_id,
+              width: result.width,
+              height: result.height,
+              secureURL: result.secure_url,
+            });
+          }
+        )
+        .end(file);
+    });
+  },
+
+  getAsset: async (publicId) => {
+    configureCloudinary();
+
+    const { width, height } = await cloudinary.api.resource(publicId);
+
+    return { width, height };
+  },
+
+  getTransformationUrl: getCloudinaryTransformationUrl,
+
+  probeTransformation: async (params) => {
+    const response = await fetch(getCloudinaryTransformationUrl(params), {
+      method: 'HEAD',
+      cache: 'no-store',
+    });
+
+    // 423 means Cloudinary is still generating the derived asset.
+    if (response.status === 423) return 'processing';
+
+    return response.ok ? 'ready' : 'failed';
+  },
+
+  createDerivedAsset: async (params) => {
+    const status = await cloudinaryProvider.probeTransformation(params);
+
+    if (status === 'processing') return null;
+    if (status === 'failed') throw new Error('Transformation failed');
+
+    configureCloudinary();
+
+    // Uploading the delivery URL bakes the transformation into a new asset.
+    const result = await cloudinary.uploader.upload(
+      getCloudinaryTransformationUrl(params),
+      { folder: FOLDER, resource_type: 'image' }
+    );
+
+    return {
+      publicId: result.public_id,
+      width: result.width,
+      height: result.height,
+      secureURL: result.secure_url,
+    };
+  },
+
+  delete: async (publicId) => {
+    configureCloudinary();
+
+    await cloudinary.uploader.destroy(publicId);
+  },
+};
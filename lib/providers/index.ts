@@ -0,0 +1,10 @@
+import { cloudinaryProvider } from './cloudinary';
+import { localProvider } from './local';
+import { imageProviderName } from './url';
+
+/**
+ * Returns the image provider selected by NEXT_PUBLIC_IMAGE_PROVIDER.
+ * Server-only: the local provider reads and writes the filesystem.
+ */
+export const getImageProvider = (): ImageProvider =>
+  imageProviderName === 'local' ? localProvider : cloudinaryProvider;
@@ -0,0 +1,201 @@
+import { randomUUID } from 'crypto';
+import { readFile, rm, writeFile, mkdir } from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+
+import { getLocalTransformationUrl } from './url';
+
+const FOLDER = 'imaginify';
+
+// How close (sum of RGB channel differences) a pixel must be to the sampled
+// background colour to be cut out by the background-removal approximation.
+const BACKGROUND_THRESHOLD = 60;
+
+const storageDir = () =>
+  process.env.LOCAL_IMAGE_DIR || path.join(process.cwd(), '.images');
+
+/**
+ * Resolves a public id to its file on disk. Public ids are generated by
+ * `upload`, so anything else is rejected rather than resolved.
+ */
+const resolveAsset = (publicId: string) => {
+  if (!new RegExp(`^${FOLDER}/[\\w-]+$`).test(publicId)) {
+    throw new Error('Invalid public id');
+  }
+
+  return path.join(storageDir(), publicId);
+};
+
+const readMetadata = async (publicId: string) =>
+  JSON.parse(await readFile(`${resolveAsset(publicId)}.json`, 'utf8')) as {
+    filename: string;
+    width: number;
+    height: number;
+  };
+
+/**
+ * Approximates background removal by cutting out every pixel close to the
+ * average colour of the image corners.
+ */
+const removeBackground = async (input: Buffer) => {
+  const { data, info } = await sharp(input)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1];
+  const background = [0, 1, 2].map(
+    (channel) =>
+      corners.reduce(
+        (sum, pixel) => sum + data[pixel * channels + channel],
+        0
+      ) / corners.length
+  );
+
+  for (let i = 0; i < data.length; i += channels) {
+    const distance =
+      Math.abs(data[i] - background[0]) +
+      Math.abs(data[i + 1] - background[1]) +
+      Math.abs(data[i + 2] - background[2]);
+
+    if (distance < BACKGROUND_THRESHOLD) data[i + 3] = 0;
+  }
+
+  return sharp(data, { raw: { width, height, channels } }).png().toBuffer();
+};
+
+/**
+ * Approximates generative fill by placing the image over a blurred, stretched
+ * copy of itself at the requested size.
+ */
+const fillBackground = async (input: Buffer, width: number, height: number) => {
+  const background = await sharp(input)
+    .resize(width, height, { fit: 'cover' })
+    .blur(30)
+    .toBuffer();
+  const foreground = await sharp(input)
+    .resize(width, height, { fit: 'inside' })
+    .toBuffer();
+
+  return sharp(background)
+    .composite([{ input: foreground, gravity: 'center' }])
+    .png()
+    .toBuffer();
+};
+
+/**
+ * Renders a transformation of a stored image with sharp.
+ *
+ * Object removal has no local approximation and returns the image unchanged.
+ */
+export const renderLocalTransformation = async ({
+  publicId,
+  width,
+  height,
+  config,
+}: TransformationUrlParams) => {
+  let image = await sharp(await readFile(resolveAsset(publicId)))
+    .rotate()
+    .toBuffer();
+
+  if (config?.restore) {
+    image = await sharp(image).median(3).sharpen().toBuffer();
+  }
+
+  if (config?.recolor?.to) {
+    image = await sharp(image).tint(config.recolor.to).toBuffer();
+  }
+
+  if (config?.removeBackground) {
+    image = await removeBackground(image);
+  }
+
+  if (config?.fillBackground && width && height) {
+    return fillBackground(image, width, height);
+  }
+
+  return sharp(image)
+    .resize(width, height, { fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer();
+};
+
+/**
+ * Renders a stored image, or a derived one, for delivery. The requested size
+ * is clamped to the stored size, and no transformation is applied: those
+ * are baked into derived assets by `createDerivedAsset`, after being paid
+ * for.
+ */
+export const renderLocalAsset = async ({
+  publicId,
+  width,
+  height,
+}: Omit<TransformationUrlParams, 'config'>) => {
+  const asset = await readMetadata(publicId);
+
+  return sharp(await readFile(resolveAsset(publicId)))
+    .rotate()
+    .resize(
+      width ? Math.min(width, asset.width) : undefined,
+      height ? Math.min(height, asset.height) : undefined,
+      { fit: 'inside', withoutEnlargement: true }
+    )
+    .png()
+    .toBuffer();
+};
+
+/**
+ * Image provider that keeps files on local disk and renders transformations
+ * with sharp, so the app can run without a Cloudinary account.
+ */
+export const localProvider: ImageProvider = {
+  upload: async (file, filename) => {
+    const publicId = `${FOLDER}/${randomUUID()}`;
+    const { width = 0, height = 0 } = await sharp(file).metadata();
+
+    await mkdir(path.join(storageDir(), FOLDER), { recursive: true });
+    await writeFile(resolveAsset(publicId), file);
+    await writeFile(
+      `${resolveAsset(publicId)}.json`,
+      JSON.stringify({ filename, width, height })
+    );
+
+    return {
+      publicId,
+      width,
+      height,
+      secureURL: getLocalTransformationUrl({ publicId }),
+    };
+  },
+
+  getAsset: async (publicId) => {
+    const { width, height } = await readMetadata(publicId);
+
+    return { width, height };
+  },
+
+  getTransformationUrl: getLocalTransformationUrl,
+
+  probeTransformation: async (params) => {
+    try {
+      await renderLocalTransformation(params);
+
+      return 'ready';
+    } catch (error) {
+      return 'failed';
+    }
+  },
+
+  createDerivedAsset: async (params) => {
+    const { filename } = await readMetadata(params.publicId);
+    const image = await renderLocalTransformation(params);
+
+    return localProvider.upload(image, `derived-${filename}`);
+  },
+
+  delete: async (publicId) => {
+    await rm(resolveAsset(publicId), { force: true });
+    await rm(`${resolveAsset(publicId)}.json`, { force: true });
+  },
+};
@@ -0,0 +1,45 @@
+import { getCldImageUrl } from 'next-cloudinary';
+
+// Safe to import from client components: this module only builds URLs.
+
+export const imageProviderName =
+  process.env.NEXT_PUBLIC_IMAGE_PROVIDER === 'local' ? 'local' : 'cloudinary';
+
+/**
+ * Builds the lazy Cloudinary delivery URL for a transformation.
+ */
+export const getCloudinaryTransformationUrl = ({
+  publicId,
+  width,
+  height,
+  config,
+}: TransformationUrlParams) =>
+  getCldImageUrl({ width, height, src: publicId, ...config });
+
+/**
+ * Builds the URL of the local image route. The route only serves stored and
+ * derived assets, so the config is not part of it: a transformation shows
+ * once its derived asset exists.
+ */
+export const getLocalTransformationUrl = ({
+  publicId,
+  width,
+  height,
+}: TransformationUrlParams) => {
+  const params = new URLSearchParams();
+
+  if (width) params.set('width', String(width));
+  if (height) params.set('height', String(height));
+
+  const query = params.toString();
+
+  return `/api/images/${publicId}${query ? `?${query}` : ''}`;
+};
+
+/**
+ * Builds the transformation URL for the configured image provider.
+ */
+export const getTransformationUrl = (params: TransformationUrlParams) =>
+  imageProviderName === 'local'
+    ? getLocalTransformationUrl(params)
+    : getCloudinaryTransformationUrl(params);
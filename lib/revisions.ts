@@ -0,0 +1,36 @@
+import ImageRevision from './database/models/imageRevision.model';
+
+// The image fields a revision captures and a revert restores.
+export const REVISION_FIELDS = [
+  'title',
+  'transformationType',
+  'publicId',
+  'secureURL',
+  'width',
+  'height',
+  'config',
+  'transformationUrl',
+  'derivedPublicId',
+  'aspectRatio',
+  'color',
+  'prompt',
+] as const;
+
+/**
+ * Copies the revision fields out of an image or revision document. Missing
+ * fields become null so that restoring them clears the current value.
+ */
+export const pickRevisionFields = (source: any) =>
+  Object.fromEntries(
+    REVISION_FIELDS.map((field) => [field, source[field] ?? null])
+  );
+
+/**
+ * Stores the current state of an image as a new revision.
+ */
+export async function snapshotImage(image: any) {
+  return ImageRevision.create({
+    ...pickRevisionFields(image),
+    image: image._id,
+  });
+}
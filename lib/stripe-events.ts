@@ -0,0 +1,223 @@
+import mongoose, { ClientSession } from 'mongoose';
+import Stripe from 'stripe';
+
+import { applyRefund, closeDispute, openDispute } from './clawbacks';
+import { grantCredits } from './credits';
+import Transaction from './database/models/transaction.model';
+import WebhookEvent from './database/models/webhookEvent.model';
+import { connectToDatabase } from './database/mongoose';
+import { redeemPromoCode, releasePromoCode } from './promo-codes';
+import { grantSubscriptionCredits, syncSubscription } from './subscriptions';
+import { getStripeId } from './utils';
+
+// Stripe events are trusted as they are, so these helpers stay out of
+// `lib/actions`. Only the Stripe webhook, after checking the signature, and
+// the replay script, with events the webhook stored, may call them.
+
+/**
+ * Records a one-off credit purchase from a completed checkout session
+ * inside an open session, counting the promo code it was bought with.
+ *
+ * Throws an error if the checkout session has no buyer.
+ */
+const recordPurchase = async (
+  checkoutSession: Stripe.Checkout.Session,
+  session: ClientSession
+) => {
+  // Subscription checkouts are paid, and credited, through their invoices.
+  if (checkoutSession.mode === 'subscription') return null;
+
+  const { id, amount_total, metadata } = checkoutSession;
+
+  if (!metadata?.buyerId) throw new Error('Checkout session has no buyer');
+
+  const promoCode = metadata.promoCode || null;
+
+  // The use of the code was reserved, and checked against the limits, when
+  // the checkout started.
+  if (metadata.promoReservation) {
+    await redeemPromoCode(metadata.promoReservation, session);
+  }
+
+  const bonusCredits = promoCode ? Number(metadata.bonusCredits) || 0 : 0;
+  const credits = (Number(metadata.credits) || 0) + bonusCredits;
+
+  const [newTransaction] = await Transaction.create(
+    [
+      {
+        stripeId: id,
+        paymentIntentId: getStripeId(checkoutSession.payment_intent),
+        amount: amount_total ? amount_total / 100 : 0,
+        plan: metadata.plan || '',
+        credits,
+        buyer: metadata.buyerId,
+        promoCode,
+        discount: Number(metadata.discount) || 0,
+        bonusCredits,
+      },
+    ],
+    { session }
+  );
+
+  await grantCredits(
+    metadata.buyerId,
+    credits,
+    {
+      reason: 'purchase',
+      reference: { kind: 'transaction', id: newTransaction._id.toString() },
+    },
+    session
+  );
+
+  return newTransaction;
+};
+
+/**
+ * Applies the effects of a Stripe event inside an open session. Events the
+ * app does not handle have none.
+ */
+const applyStripeEvent = async (
+  event: Stripe.Event,
+  session: ClientSession
+) => {
+  // CREDIT PURCHASES
+  if (event.type === 'checkout.session.completed') {
+    await recordPurchase(event.data.object, session);
+  }
+
+  if (
+    event.type === 'checkout.session.expired' &&
+    event.data.object.metadata?.promoReservation
+  ) {
+    await releasePromoCode(
+      event.data.object.metadata.promoReservation,
+      session
+    );
+  }
+
+  // SUBSCRIPTION CREDITS
+  if (event.type === 'invoice.paid') {
+    await grantSubscriptionCredits(event.data.object, session);
+  }
+
+  // SUBSCRIPTION PLAN
+  if (
+    event.type === 'customer.subscription.created' ||
+    event.type === 'customer.subscription.updated' ||
+    event.type === 'customer.subscription.deleted'
+  ) {
+    await syncSubscription(event.data.object, session);
+  }
+
+  // REFUNDS AND DISPUTES
+  if (event.type === 'charge.refunded') {
+    await applyRefund(event.data.object, session);
+  }
+
+  if (event.type === 'charge.dispute.created') {
+    await openDispute(event.data.object, session);
+  }
+
+  if (event.type === 'charge.dispute.closed') {
+    await closeDispute(event.data.object, session);
+  }
+};
+
+/**
+ * Processes a Stripe event exactly once.
+ *
+ * The event is stored before anything else, so it can be replayed. Its
+ * effects are written in the same transaction that marks it processed, so
+ * an event Stripe delivers again, even at the same time, changes nothing.
+ *
+ * Returns whether this call processed the event.
+ *
+ * Throws an error, after storing it on the event, if processing failed.
+ */
+export async function processStripeEvent(event: Stripe.Event) {
+  await connectToDatabase();
+
+  await WebhookEvent.updateOne(
+    { eventId: event.id },
+    { $setOnInsert: { type: event.type, payload: event } },
+    { upsert: true }
+  );
+
+  let processed = false;
+
+  try {
+    await mongoose.connection.transaction(async (session) => {
+      // The callback runs again if the transaction is retried.
+      processed = false;
+
+      const claimedEvent = await WebhookEvent.findOneAndUpdate(
+        { eventId: event.id, status: { $ne: 'processed' } },
+        {
+          status: 'processed',
+          processedAt: new Date(),
+          $inc: { attempts: 1 },
+          $unset: { error: 1 },
+        },
+        { session }
+      );
+
+      if (!claimedEvent) return;
+
+      await applyStripeEvent(event, session);
+
+      processed = true;
+    });
+  } catch (error) {
+    await WebhookEvent.updateOne(
+      { eventId: event.id },
+      {
+        status: 'failed',
+        error: (error as Error).message,
+        $inc: { attempts: 1 },
+      }
+    );
+
+    throw error;
+  }
+
+  return processed;
+}
+
+/**
+ * Processes stored Stripe events again, oldest first: the event with the
+ * given id, or else every event that was not processed yet. Events that
+ * were already processed are skipped, so a replay never applies one twice.
+ *
+ * Returns what happened to each event.
+ */
+export async function replayStripeEvents(eventId?: string) {
+  await connectToDatabase();
+
+  const storedEvents = await WebhookEvent.find(
+    eventId ? { eventId } : { status: { $ne: 'processed' } }
+  )
+    .sort({ createdAt: 1 })
+    .lean<{ eventId: string; type: string; payload: Stripe.Event }[]>();
+
+  const results: { eventId: string; type: string; result: string }[] = [];
+
+  for (const { eventId: id, type, payload } of storedEvents) {
+    try {
+      const processed = await processStripeEvent(payload);
+
+      results.push({
+        eventId: id,
+        type,
+        result: processed ? 'processed' : 'skipped',
+      });
+    } catch (error) {
+      results.push({
+        eventId: id,
+        type,
+        result: `failed: ${(error as Error).message}`,
+      });
+    }
+  }
+
+  return results;
+}
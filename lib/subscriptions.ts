@@ -0,0 +1,192 @@
+import { ClientSession } from 'mongoose';
+import Stripe from 'stripe';
+
+import { freePlanId, subscriptionPlans } from '@/constants';
+
+import { grantCredits } from './credits';
+import Transaction from './database/models/transaction.model';
+import User from './database/models/user.model';
+import { getStripeId } from './utils';
+
+// Like `lib/credits.ts`, these helpers stay out of `lib/actions`: they trust
+// the Stripe objects they are given, so only Stripe events, once their
+// signature is checked, may reach them. See `lib/stripe-events.ts`.
+
+// Subscribers keep their plan in these statuses. A past due subscription
+// keeps it while Stripe retries the payment.
+const ACTIVE_STATUSES: Stripe.Subscription.Status[] = [
+  'active',
+  'trialing',
+  'past_due',
+];
+
+// Invoices that start a billing cycle. Any other invoice, such as a
+// proration, grants no credits.
+const CYCLE_BILLING_REASONS: Stripe.Invoice.BillingReason[] = [
+  'subscription_create',
+  'subscription_cycle',
+];
+
+export const getSubscriptionPlan = (planId?: string | null) =>
+  subscriptionPlans.find((plan) => plan._id === planId);
+
+/**
+ * Finds the customer's subscription checkout that is still open, if any.
+ *
+ * Throws an error if one of their checkouts already started a subscription
+ * that is still active: the webhook may not have recorded it yet.
+ */
+export async function findPendingSubscriptionCheckout(
+  stripe: Stripe,
+  customerId: string
+) {
+  const { data } = await stripe.checkout.sessions.list({
+    customer: customerId,
+    limit: 10,
+    expand: ['data.subscription'],
+  });
+
+  const checkouts = data.filter(
+    (checkoutSession) => checkoutSession.mode === 'subscription'
+  );
+
+  const isSubscribed = checkouts.some(
+    ({ status, subscription }) =>
+      status === 'complete' &&
+      typeof subscription === 'object' &&
+      subscription !== null &&
+      ACTIVE_STATUSES.includes(subscription.status)
+  );
+
+  if (isSubscribed) throw new Error('Already subscribed');
+
+  return checkouts.find(({ status }) => status === 'open') ?? null;
+}
+
+/**
+ * Finds the user a subscription belongs to, by the buyer id set at
+ * checkout, or else by their Stripe customer id.
+ */
+const findSubscriber = (
+  metadata: Stripe.Metadata | null | undefined,
+  customer: string | Stripe.Customer | Stripe.DeletedCustomer | null,
+  session: ClientSession
+) => {
+  if (metadata?.buyerId)
+    return User.findById(metadata.buyerId, null, { session });
+
+  const customerId = typeof customer === 'string' ? customer : customer?.id;
+
+  return customerId
+    ? User.findOne({ stripeCustomerId: customerId }, null, { session })
+    : null;
+};
+
+/**
+ * Copies the state of a Stripe subscription to its user inside an open
+ * session. An active subscription puts the user on its plan; once it ends,
+ * they are back on the free plan.
+ *
+ * Returns the updated user, or null if the event was about a subscription
+ * the user no longer has.
+ *
+ * Throws an error if the subscriber does not exist.
+ */
+export async function syncSubscription(
+  subscription: Stripe.Subscription,
+  session: ClientSession
+) {
+  const user = await findSubscriber(
+    subscription.metadata,
+    subscription.customer,
+    session
+  );
+
+  if (!user) throw new Error('Subscriber not found');
+
+  const plan = getSubscriptionPlan(subscription.metadata.subscriptionPlan);
+  const isActive = !!plan && ACTIVE_STATUSES.includes(subscription.status);
+
+  // Only the user's current subscription may change their plan, or a new
+  // one when they have none, so late events of an old subscription do not
+  // undo a newer one.
+  const updatedUser = await User.findOneAndUpdate(
+    {
+      _id: user._id,
+      $or: [
+        { 'subscription.id': subscription.id },
+        ...(isActive ? [{ subscription: null }] : []),
+      ],
+    },
+    isActive
+      ? {
+          planId: plan.planId,
+          subscription: {
+            id: subscription.id,
+            plan: plan._id,
+            status: subscription.status,
+            currentPeriodEnd: new Date(subscription.current_period_end * 1000),
+          },
+        }
+      : { planId: freePlanId, subscription: null },
+    { new: true, session }
+  );
+
+  return updatedUser ? JSON.parse(JSON.stringify(updatedUser)) : null;
+}
+
+/**
+ * Grants a subscription's credits for the billing cycle a paid invoice
+ * starts inside an open session, and records the payment as a transaction.
+ *
+ * Returns the new transaction, or null if the invoice grants nothing.
+ *
+ * Throws an error if the plan or the subscriber does not exist.
+ */
+export async function grantSubscriptionCredits(
+  invoice: Stripe.Invoice,
+  session: ClientSession
+) {
+  if (
+    !invoice.subscription ||
+    !invoice.billing_reason ||
+    !CYCLE_BILLING_REASONS.includes(invoice.billing_reason)
+  ) {
+    return null;
+  }
+
+  const metadata = invoice.subscription_details?.metadata;
+  const plan = getSubscriptionPlan(metadata?.subscriptionPlan);
+
+  if (!plan) throw new Error('Unknown subscription plan');
+
+  const user = await findSubscriber(metadata, invoice.customer, session);
+
+  if (!user) throw new Error('Subscriber not found');
+
+  const [newTransaction] = await Transaction.create(
+    [
+      {
+        stripeId: invoice.id,
+        paymentIntentId: getStripeId(invoice.payment_intent),
+        amount: invoice.amount_paid / 100,
+        plan: plan.name,
+        credits: plan.credits,
+        buyer: user._id,
+      },
+    ],
+    { session }
+  );
+
+  await grantCredits(
+    user._id,
+    plan.credits,
+    {
+      reason: 'subscription',
+      reference: { kind: 'transaction', id: newTransaction._id.toString() },
+    },
+    session
+  );
+
+  return newTransaction;
+}
@@ -0,0 +1,81 @@
+import Image from './database/models/image.model';
+import ImageRevision from './database/models/imageRevision.model';
+import TransformationJob from './database/models/transformationJob.model';
+import Upload from './database/models/upload.model';
+import User from './database/models/user.model';
+import { canViewImage } from './visibility';
+
+/**
+ * Whether any image or revision uses an asset, as its upload or as the
+ * source or result of one of its steps.
+ */
+export async function isAssetInUse(publicId: string) {
+  const filter = {
+    $or: [
+      { publicId },
+      { derivedPublicId: publicId },
+      { 'config.sourcePublicId': publicId },
+      { 'config.derivedPublicId': publicId },
+    ],
+  };
+
+  return Boolean(
+    (await Image.exists(filter)) || (await ImageRevision.exists(filter))
+  );
+}
+
+/**
+ * Records the given user as the uploader of an asset. Recording it again for
+ * the same user changes nothing.
+ *
+ * Throws an error if the asset was recorded for another user, or is already
+ * used by an image or a transformation job.
+ */
+export async function recordUpload(publicId: string, userId: string) {
+  const upload = await Upload.findOne({ publicId });
+
+  if (upload) {
+    if (upload.user.toString() !== userId) throw new Error('Upload not found');
+    return upload;
+  }
+
+  if (
+    (await isAssetInUse(publicId)) ||
+    (await TransformationJob.exists({ derivedPublicId: publicId }))
+  ) {
+    throw new Error('Upload not found');
+  }
+
+  return Upload.create({ publicId, user: userId });
+}
+
+/**
+ * Whether a user may transform an asset: their own upload, an asset one of
+ * their jobs derived, or the upload of an image they may view, given the
+ * share token for an unlisted one.
+ */
+export async function canTransformAsset(
+  publicId: string,
+  user: { _id: unknown; clerkId: string },
+  shareToken?: string
+) {
+  if (await Upload.exists({ publicId, user: user._id })) return true;
+
+  if (
+    await TransformationJob.exists({
+      derivedPublicId: publicId,
+      user: user._id,
+      status: 'succeeded',
+    })
+  ) {
+    return true;
+  }
+
+  const images = await Image.find({ publicId }).populate({
+    path: 'author',
+    model: User,
+    select: 'clerkId',
+  });
+
+  return images.some((image) => canViewImage(image, user.clerkId, shareToken));
+}
@@ -4,7 +4,15 @@ import { type ClassValue, clsx } from 'clsx';
 import qs from 'qs';
 import { twMerge } from 'tailwind-merge';
 
-import { aspectRatioOptions } from '@/constants';
+import {
+  aspectRatioOptions,
+  imageFilterKeys,
+  maxImageTags,
+  maxTagLength,
+  plans,
+  transformationPricing,
+  transformationTypes,
+} from '@/constants';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -84,6 +92,16 @@ export function removeKeysFromQuery({
   return `${window.location.pathname}?${qs.stringify(currentUrl)}`;
 }
 
+// IMAGE FILTERS
+export const getImageFilters = (
+  searchParams: SearchParamProps['searchParams']
+): ImageFilterParams =>
+  Object.fromEntries(
+    imageFilterKeys
+      .filter((key) => typeof searchParams?.[key] === 'string')
+      .map((key) => [key, searchParams[key]])
+  );
+
 // DEBOUNCE
 export const debounce = (func: (...args: any[]) => void, delay: number) => {
   let timeoutId: NodeJS.Timeout | null;
@@ -109,6 +127,232 @@ export const getImageSize = (
   return image?.[dimension] || 1000;
 };
 
+// GET TRANSFORMATION COST
+export const getTransformationCost = (
+  type: TransformationTypeKey,
+  image: any,
+  planId?: number | string
+): number => {
+  const { base, perMegapixel } = transformationPricing[type];
+  const width = getImageSize(type, image, 'width');
+  const height = getImageSize(type, image, 'height');
+  const megapixels = (width * height) / 1_000_000;
+  const multiplier =
+    plans.find((plan) => plan._id === Number(planId))
+      ?.transformationMultiplier ?? 1;
+
+  return Math.max(
+    1,
+    Math.ceil((base + perMegapixel * megapixels) * multiplier)
+  );
+};
+
+// TRANSFORMATION STEPS
+export const getTransformationSteps = (image: any): TransformationStep[] => {
+  if (Array.isArray(image?.config)) return image.config;
+  if (!image?.transformationType) return [];
+
+  // Images saved before pipelines carry a single, already merged config.
+  return [
+    {
+      type: image.transformationType,
+      aspectRatio: image.aspectRatio,
+      prompt: image.prompt,
+      color: image.color,
+      config: image.config,
+      sourcePublicId: image.publicId,
+      derivedPublicId: image.derivedPublicId,
+      derivedURL: image.transformationUrl,
+    },
+  ];
+};
+
+export const buildStepConfig = (step: TransformationStep): Transformations => {
+  const defaults = transformationTypes[step.type].config;
+
+  if (step.type === 'remove') {
+    return deepMergeObjects(
+      { remove: { prompt: step.prompt ?? '' } },
+      defaults
+    );
+  }
+
+  if (step.type === 'recolor') {
+    return deepMergeObjects(
+      { recolor: { prompt: step.prompt ?? '', to: step.color ?? '' } },
+      defaults
+    );
+  }
+
+  return defaults;
+};
+
+// Number of leading steps whose result was generated from the current input.
+export const countAppliedSteps = (
+  steps: TransformationStep[],
+  publicId?: string
+) => {
+  let source = publicId;
+
+  for (let i = 0; i < steps.length; i++) {
+    if (!steps[i].derivedPublicId || steps[i].sourcePublicId !== source) {
+      return i;
+    }
+
+    source = steps[i].derivedPublicId;
+  }
+
+  return steps.length;
+};
+
+// Cost of running the given steps in order, each on the previous one's output.
+export const getPipelineCost = (
+  steps: TransformationStep[],
+  image: any,
+  planId?: number | string
+) => {
+  let input = image;
+  let cost = 0;
+
+  for (const step of steps) {
+    const asset = { ...input, aspectRatio: step.aspectRatio };
+
+    cost += getTransformationCost(step.type, asset, planId);
+    input = {
+      width: getImageSize(step.type, asset, 'width'),
+      height: getImageSize(step.type, asset, 'height'),
+    };
+  }
+
+  return cost;
+};
+
+// POLL TRANSFORMATION JOB
+/**
+ * Polls a transformation job until it succeeds or fails. A job still
+ * running after `maxPolls` polls or `timeout` ms is reported as failed; the
+ * server refunds it if its worker was lost.
+ */
+export const pollTransformationJob = async (
+  jobId: string,
+  interval = 1500,
+  maxPolls = 200,
+  timeout = 5 * 60 * 1000
+): Promise<TransformationJobResult> => {
+  const deadline = Date.now() + timeout;
+  let lastJob: TransformationJobResult | null = null;
+
+  for (let poll = 0; poll < maxPolls && Date.now() < deadline; poll++) {
+    if (poll > 0) await new Promise((resolve) => setTimeout(resolve, interval));
+
+    const response = await fetch(`/api/jobs/${jobId}`, { cache: 'no-store' });
+
+    if (!response.ok) throw new Error('Could not fetch transformation status');
+
+    const job: TransformationJobResult = await response.json();
+
+    if (job.status === 'succeeded' || job.status === 'failed') return job;
+
+    lastJob = job;
+  }
+
+  if (!lastJob) throw new Error('Could not fetch transformation status');
+
+  // Nothing was refunded yet, so `refundedCredits` stays unset.
+  return {
+    ...lastJob,
+    status: 'failed',
+    error: 'Timed out waiting for the transformation',
+  };
+};
+
+// AUTHOR NAME
+export const getAuthorName = (user: {
+  firstName?: string | null;
+  lastName?: string | null;
+  username?: string | null;
+}) =>
+  [user.firstName, user.lastName].filter(Boolean).join(' ') ||
+  user.username ||
+  '';
+
+// STRIPE IDS
+// Stripe objects refer to each other by id, or by the whole object when it
+// was expanded.
+export const getStripeId = (value: string | { id: string } | null) =>
+  typeof value === 'string' ? value : (value?.id ?? null);
+
+// TAGS
+/**
+ * Turns free-form text into a tag: lowercase letters and digits, with words
+ * joined by dashes. Returns an empty string when nothing is left.
+ */
+export const normalizeTag = (tag: string) =>
+  tag
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, maxTagLength)
+    .replace(/-+$/, '');
+
+/**
+ * Normalizes a list of tags, dropping empty and repeated ones, and keeping
+ * at most `maxImageTags`. Anything that is not a list of strings gives no
+ * tags.
+ */
+export const normalizeTags = (tags: unknown): string[] =>
+  Array.isArray(tags)
+    ? Array.from(
+        new Set(
+          tags
+            .filter((tag): tag is string => typeof tag === 'string')
+            .map(normalizeTag)
+            .filter(Boolean)
+        )
+      ).slice(0, maxImageTags)
+    : [];
+
+// MENTIONS
+// An `@username` at the start of the text or after a non-word character, so
+// email addresses are not mistaken for mentions.
+const MENTION_REGEX = /(^|[^\w@])@([\w-]{1,64})/g;
+
+/**
+ * Splits text into plain parts and `@username` mentions, in order.
+ */
+export const splitMentions = (text: string) => {
+  const parts: { text: string; username?: string }[] = [];
+  let lastIndex = 0;
+
+  Array.from(text.matchAll(MENTION_REGEX)).forEach((match) => {
+    const start = match.index! + match[1].length;
+
+    if (start > lastIndex) parts.push({ text: text.slice(lastIndex, start) });
+    parts.push({ text: `@${match[2]}`, username: match[2].toLowerCase() });
+
+    lastIndex = start + match[2].length + 1;
+  });
+
+  if (lastIndex < text.length) parts.push({ text: text.slice(lastIndex) });
+
+  return parts;
+};
+
+// UPLOAD LOCAL IMAGE
+export const uploadLocalImage = async (file: File): Promise<UploadedAsset> => {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch('/api/images', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) throw new Error(await response.text());
+
+  return response.json();
+};
+
 // DOWNLOAD IMAGE
 export const download = (url: string, filename: string) => {
   if (!url) {
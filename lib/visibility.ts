@@ -0,0 +1,52 @@
+import { randomBytes } from 'crypto';
+
+import { visibilityOptions } from '@/constants';
+
+// Images saved before visibility existed have no value and stay public.
+export const listedImagesFilter = {
+  visibility: { $nin: ['private', 'unlisted'] },
+};
+
+/**
+ * Resolves the visibility fields to store on an image.
+ *
+ * Unlisted images keep their share token, or get a new random one; any other
+ * visibility drops the token, so a link shared earlier stops working.
+ *
+ * Throws an error if the visibility is unknown.
+ */
+export const getVisibilityFields = (
+  visibility: string,
+  shareToken?: string | null
+) => {
+  if (!(visibility in visibilityOptions)) {
+    throw new Error('Unknown visibility');
+  }
+
+  return {
+    visibility: visibility as ImageVisibility,
+    shareToken:
+      visibility === 'unlisted'
+        ? shareToken || randomBytes(16).toString('base64url')
+        : null,
+  };
+};
+
+/**
+ * Whether the user with the given clerkId may see an image. Private images
+ * are only visible to their author, unlisted ones also to whoever has the
+ * share token.
+ */
+export const canViewImage = (
+  image: any,
+  clerkId?: string | null,
+  shareToken?: string
+) => {
+  if (clerkId && image.author?.clerkId === clerkId) return true;
+  if (image.visibility === 'private') return false;
+  if (image.visibility === 'unlisted') {
+    return !!shareToken && shareToken === image.shareToken;
+  }
+
+  return true;
+};
@@ -1,7 +1,16 @@
 import { authMiddleware } from '@clerk/nextjs';
 
 export default authMiddleware({
-  publicRoutes: ['/', '/api/webhooks/clerk', '/api/webhooks/stripe'],
+  publicRoutes: [
+    '/',
+    '/transformations/:id',
+    '/albums/:id',
+    '/tags/:tag',
+    '/u/:username',
+    '/api/webhooks/clerk',
+    '/api/webhooks/stripe',
+    '/api/images/(.*)',
+  ],
 });
 
 export const config = {
@@ -0,0 +1,28 @@
+import mongoose from 'mongoose';
+
+import { backfillOpeningBalances } from '../lib/credits';
+
+/**
+ * Gives users created before the credit ledger an opening 'adjustment'
+ * entry equal to their balance, so `npm run credits:reconcile` stops
+ * flagging them. Run it once after deploying the ledger; running it again
+ * is harmless.
+ */
+const backfillCreditLedger = async () => {
+  const openings = await backfillOpeningBalances();
+
+  if (openings.length === 0) {
+    console.log('No users without an opening balance');
+    return;
+  }
+
+  console.table(openings);
+  console.log(`Wrote ${openings.length} opening balance(s)`);
+};
+
+backfillCreditLedger()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+
+import Image from '../lib/database/models/image.model';
+import User from '../lib/database/models/user.model';
+import { connectToDatabase } from '../lib/database/mongoose';
+import { getAuthorName } from '../lib/utils';
+
+/**
+ * Prepares existing images for search: brings the indexes in line with the
+ * schema, rebuilding the text index when its fields changed, and copies
+ * every author's name onto their images. Safe to run more than once.
+ */
+const backfillImageSearch = async () => {
+  await connectToDatabase();
+
+  await Image.syncIndexes();
+
+  const users = await User.find({}, 'firstName lastName username');
+  let updated = 0;
+
+  for (const user of users) {
+    const { modifiedCount } = await Image.updateMany(
+      { author: user._id },
+      { authorName: getAuthorName(user) }
+    );
+
+    updated += modifiedCount;
+  }
+
+  console.log(`Updated the author name of ${updated} image(s)`);
+};
+
+backfillImageSearch()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,56 @@
+import mongoose from 'mongoose';
+import { parseArgs } from 'node:util';
+
+import PromoCode from '../lib/database/models/promoCode.model';
+import { connectToDatabase } from '../lib/database/mongoose';
+import { describePromoCode, normalizePromoCode } from '../lib/promo-codes';
+
+const KINDS: PromoCodeKind[] = ['percent_off', 'fixed_off', 'bonus_credits'];
+
+/**
+ * Creates a promo code, e.g.
+ * `npm run promo:create -- SPRING20 percent_off 20 --expires 2026-06-01 --max 100`.
+ *
+ * Options: `--expires <date>`, `--max <redemptions>` and `--per-user <count>`
+ * (1 by default). Codes without `--expires` or `--max` never run out.
+ */
+const createPromoCode = async () => {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      expires: { type: 'string' },
+      max: { type: 'string' },
+      'per-user': { type: 'string', default: '1' },
+    },
+  });
+
+  const [code, kind, value] = positionals;
+
+  if (!code || !KINDS.includes(kind as PromoCodeKind) || !Number(value)) {
+    throw new Error(
+      `Usage: npm run promo:create -- <code> <${KINDS.join('|')}> <value>`
+    );
+  }
+
+  await connectToDatabase();
+
+  const promoCode = await PromoCode.create({
+    code: normalizePromoCode(code),
+    kind,
+    value: Number(value),
+    expiresAt: values.expires ? new Date(values.expires) : null,
+    maxRedemptions: values.max ? Number(values.max) : null,
+    perUserLimit: Number(values['per-user']),
+  });
+
+  console.log(
+    `Created promo code ${promoCode.code}: ${describePromoCode(promoCode)}`
+  );
+};
+
+createPromoCode()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,17 @@
+import mongoose from 'mongoose';
+
+import { processQueuedJobs } from '../lib/jobs';
+
+/**
+ * Drains the transformation job queue and exits.
+ *
+ * Jobs are normally started by the server right after they are queued; run
+ * this on a schedule to pick up any job whose server process went away.
+ */
+processQueuedJobs()
+  .then((processed) => console.log(`Processed ${processed} job(s)`))
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
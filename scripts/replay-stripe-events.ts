@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+
+import { replayStripeEvents } from '../lib/stripe-events';
+
+/**
+ * Replays stored Stripe webhook events that were not processed, or the one
+ * event whose id is given, e.g. `npm run stripe:replay -- evt_123`.
+ *
+ * Events that were already processed are skipped, so it is safe to run at
+ * any time. Exits with a non-zero code when any event fails again.
+ */
+const replayEvents = async () => {
+  const results = await replayStripeEvents(process.argv[2]);
+
+  if (results.length === 0) {
+    console.log('No Stripe events to replay');
+    return;
+  }
+
+  console.table(results);
+
+  const failed = results.filter(({ result }) => result.startsWith('failed'));
+
+  if (failed.length > 0) {
+    console.error(`${failed.length} event(s) failed again`);
+    process.exitCode = 1;
+  }
+};
+
+replayEvents()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,29 @@
+import { randomUUID } from 'crypto';
+import mongoose from 'mongoose';
+
+import User from '@/lib/database/models/user.model';
+import { connectToDatabase } from '@/lib/database/mongoose';
+
+/**
+ * Connects to the test database and builds the indexes of every model, so
+ * unique keys hold from the first test on.
+ */
+export const setUpDatabase = async () => {
+  await connectToDatabase();
+  await Promise.all(Object.values(mongoose.models).map((m) => m.init()));
+};
+
+export const clearDatabase = () =>
+  Promise.all(Object.values(mongoose.models).map((m) => m.deleteMany({})));
+
+export const createTestUser = () => {
+  const id = randomUUID();
+
+  return User.create({
+    clerkId: `user_${id}`,
+    email: `${id}@example.com`,
+    username: `user-${id}`,
+    photo: 'https://example.com/photo.png',
+    stripeCustomerId: `cus_${id}`,
+  });
+};
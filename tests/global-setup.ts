@@ -0,0 +1,57 @@
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
+import type { TestProject } from 'vitest/node';
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    // Null when the service is not available; suites needing it are skipped.
+    mongoUrl: string | null;
+    stripeMockUrl: string | null;
+  }
+}
+
+const stripeMockUrl = process.env.STRIPE_MOCK_URL || 'http://localhost:12111';
+
+/**
+ * Looks for stripe-mock and starts a throwaway MongoDB replica set
+ * (transactions need one), unless TEST_MONGODB_URL names a database to use
+ * instead. A missing service skips the suites that need it, with a warning.
+ */
+export default async function setup(project: TestProject) {
+  const isStripeMockRunning = await fetch(`${stripeMockUrl}/v1/customers`, {
+    headers: { Authorization: 'Bearer sk_test_123' },
+  }).then(
+    () => true,
+    () => false
+  );
+
+  if (!isStripeMockRunning) {
+    console.warn(
+      `stripe-mock is not running at ${stripeMockUrl}, so the Stripe tests ` +
+        'are skipped. Start it with: ' +
+        'docker run --rm -p 12111:12111 stripe/stripe-mock'
+    );
+  }
+
+  project.provide('stripeMockUrl', isStripeMockRunning ? stripeMockUrl : null);
+
+  if (process.env.TEST_MONGODB_URL) {
+    project.provide('mongoUrl', process.env.TEST_MONGODB_URL);
+    return;
+  }
+
+  const replSet = await MongoMemoryReplSet.create({
+    replSet: { count: 1 },
+  }).catch((error) => {
+    console.warn(
+      'Could not start MongoDB, so the database tests are skipped. Set ' +
+        `TEST_MONGODB_URL to a replica set to use instead. ${error}`
+    );
+    return null;
+  });
+
+  project.provide('mongoUrl', replSet?.getUri() ?? null);
+
+  return async () => {
+    await replSet?.stop();
+  };
+}
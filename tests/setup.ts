@@ -0,0 +1,30 @@
+import type Stripe from 'stripe';
+import { inject, vi } from 'vitest';
+
+// Read by `lib/database/mongoose.ts` and the Stripe code when they load.
+process.env.MONGODB_URL = inject('mongoUrl') ?? '';
+process.env.STRIPE_SECRET_KEY = 'sk_test_123';
+process.env.STRIPE_WEBHOOK_SECRET = 'whsec_test';
+process.env.NEXT_PUBLIC_SERVER_URL = 'http://localhost:3000';
+
+// Every Stripe client, the app's included, talks to stripe-mock.
+vi.mock('stripe', async (importOriginal) => {
+  const { default: StripeClient } =
+    await importOriginal<typeof import('stripe')>();
+  const { hostname, port, protocol } = new URL(
+    inject('stripeMockUrl') ?? 'http://localhost:12111'
+  );
+
+  class StripeMock extends StripeClient {
+    constructor(key: string, config?: Stripe.StripeConfig) {
+      super(key, {
+        ...config,
+        host: hostname,
+        port: Number(port),
+        protocol: protocol === 'https:' ? 'https' : 'http',
+      });
+    }
+  }
+
+  return { default: StripeMock };
+});
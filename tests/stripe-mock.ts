@@ -0,0 +1,60 @@
+import { randomUUID } from 'crypto';
+import Stripe from 'stripe';
+import { describe, inject } from 'vitest';
+
+import { POST } from '@/app/api/webhooks/stripe/route';
+
+/**
+ * Runs a suite only when stripe-mock and the test database are available,
+ * see `global-setup.ts`.
+ */
+export const describeWithStripeMock = describe.skipIf(
+  !inject('stripeMockUrl') || !inject('mongoUrl')
+);
+
+/**
+ * A Stripe client. Like every client in the tests, it talks to stripe-mock,
+ * which answers every request with a valid fixture object.
+ */
+export const stripeMock = () => new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+/**
+ * Wraps a Stripe object in an event, the way Stripe sends it to webhooks.
+ */
+export const buildStripeEvent = <T extends Stripe.Event.Type>(
+  type: T,
+  object: Extract<Stripe.Event, { type: T }>['data']['object']
+) =>
+  ({
+    id: `evt_${randomUUID()}`,
+    object: 'event',
+    api_version: '2023-10-16',
+    created: Math.floor(Date.now() / 1000),
+    livemode: false,
+    pending_webhooks: 0,
+    request: null,
+    type,
+    data: { object },
+  }) as Extract<Stripe.Event, { type: T }>;
+
+/**
+ * Delivers an event to the Stripe webhook route with a valid signature.
+ */
+export const postStripeEvent = async (event: Stripe.Event) => {
+  const payload = JSON.stringify(event);
+
+  const response = await POST(
+    new Request('http://localhost/api/webhooks/stripe', {
+      method: 'POST',
+      body: payload,
+      headers: {
+        'stripe-signature': Stripe.webhooks.generateTestHeaderString({
+          payload,
+          secret: process.env.STRIPE_WEBHOOK_SECRET!,
+        }),
+      },
+    })
+  );
+
+  return { status: response.status, body: await response.json() };
+};
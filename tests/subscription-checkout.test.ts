@@ -0,0 +1,177 @@
+import { auth } from '@clerk/nextjs';
+import mongoose from 'mongoose';
+import { getURLFromRedirectError } from 'next/dist/client/components/redirect';
+import Stripe from 'stripe';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import { subscriptionPlans } from '@/constants';
+import { checkoutSubscription } from '@/lib/actions/transaction.actions';
+
+import { clearDatabase, createTestUser, setUpDatabase } from './database';
+import { describeWithStripeMock, stripeMock } from './stripe-mock';
+
+vi.mock('@clerk/nextjs', () => ({ auth: vi.fn() }));
+
+const stripe = stripeMock();
+const [plan, otherPlan] = subscriptionPlans;
+
+// Every Stripe client shares its resources' methods, so these spies see the
+// calls of the client the action creates.
+const checkoutSessions = Object.getPrototypeOf(stripe.checkout.sessions);
+
+type TestUser = Awaited<ReturnType<typeof createTestUser>>;
+
+const signIn = (user: TestUser) =>
+  vi.mocked(auth).mockReturnValue({ userId: user.clerkId } as any);
+
+/**
+ * Runs the action and returns where it redirected to.
+ */
+const checkout = async (planId: string) => {
+  try {
+    await checkoutSubscription(planId);
+  } catch (error) {
+    return getURLFromRedirectError(error as any);
+  }
+
+  throw new Error('Expected a redirect');
+};
+
+/**
+ * Lists the given checkouts for the customer, instead of the fixture
+ * stripe-mock lists for any customer.
+ */
+const listCheckouts = async (checkouts: Partial<Stripe.Checkout.Session>[]) => {
+  const fixture = await stripe.checkout.sessions.retrieve('cs_test');
+
+  vi.spyOn(checkoutSessions, 'list').mockResolvedValue({
+    object: 'list',
+    url: '/v1/checkout/sessions',
+    has_more: false,
+    data: checkouts.map((checkout) => ({
+      ...fixture,
+      mode: 'subscription',
+      ...checkout,
+    })),
+  });
+};
+
+describeWithStripeMock('checkoutSubscription', () => {
+  beforeAll(setUpDatabase);
+  beforeEach(clearDatabase);
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+  afterAll(() => mongoose.disconnect());
+
+  it('opens a checkout keyed to the user, plan and minute', async () => {
+    const user = await createTestUser();
+    const create = vi.spyOn(checkoutSessions, 'create');
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:30Z'));
+    signIn(user);
+    await listCheckouts([]);
+
+    const url = await checkout(plan._id);
+    const [params, options] = create.mock.calls[0] as any[];
+    const session = await create.mock.results[0].value;
+
+    expect(url).toBe(session.url);
+    expect(params).toMatchObject({
+      customer: user.stripeCustomerId,
+      mode: 'subscription',
+      metadata: { subscriptionPlan: plan._id, buyerId: user._id.toString() },
+      subscription_data: {
+        metadata: { subscriptionPlan: plan._id, buyerId: user._id.toString() },
+      },
+    });
+    expect(options.idempotencyKey).toBe(
+      `subscription-checkout-${user._id}-${plan._id}-${Math.floor(
+        Date.now() / 60000
+      )}`
+    );
+  });
+
+  it('sends clicks in the same minute with the same key', async () => {
+    const user = await createTestUser();
+    const create = vi.spyOn(checkoutSessions, 'create');
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:10Z'));
+    signIn(user);
+    await listCheckouts([]);
+
+    await checkout(plan._id);
+    vi.setSystemTime(new Date('2026-10-19T12:00:50Z'));
+    await checkout(plan._id);
+
+    const [first, second] = create.mock.calls.map(
+      ([, options]: any) => options
+    );
+
+    expect(second.idempotencyKey).toBe(first.idempotencyKey);
+  });
+
+  it('reuses an open checkout for the same plan', async () => {
+    const user = await createTestUser();
+    const create = vi.spyOn(checkoutSessions, 'create');
+    const url = 'https://checkout.stripe.com/c/pay/cs_test_open';
+
+    signIn(user);
+    await listCheckouts([
+      { status: 'open', url, metadata: { subscriptionPlan: plan._id } },
+    ]);
+
+    expect(await checkout(plan._id)).toBe(url);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('expires an open checkout for another plan first', async () => {
+    const user = await createTestUser();
+    const create = vi.spyOn(checkoutSessions, 'create');
+    const expire = vi.spyOn(checkoutSessions, 'expire');
+
+    signIn(user);
+    await listCheckouts([
+      {
+        id: 'cs_test_other',
+        status: 'open',
+        metadata: { subscriptionPlan: otherPlan._id },
+      },
+    ]);
+
+    await checkout(plan._id);
+
+    expect(expire).toHaveBeenCalledWith('cs_test_other');
+    expect(create).toHaveBeenCalledOnce();
+  });
+
+  it('refuses once a checkout started a subscription that is active', async () => {
+    const user = await createTestUser();
+    const create = vi.spyOn(checkoutSessions, 'create');
+    const subscription = await stripe.subscriptions.retrieve('sub_test');
+
+    signIn(user);
+    await listCheckouts([
+      {
+        status: 'complete',
+        subscription: { ...subscription, status: 'active' },
+      },
+    ]);
+
+    await expect(checkoutSubscription(plan._id)).rejects.toThrow(
+      'Already subscribed'
+    );
+    expect(create).not.toHaveBeenCalled();
+  });
+});
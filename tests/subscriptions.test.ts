@@ -0,0 +1,194 @@
+import { randomUUID } from 'crypto';
+import mongoose from 'mongoose';
+import Stripe from 'stripe';
+import { afterAll, beforeAll, beforeEach, expect, it } from 'vitest';
+
+import { freePlanId, subscriptionPlans } from '@/constants';
+import CreditLedgerEntry from '@/lib/database/models/creditLedgerEntry.model';
+import Transaction from '@/lib/database/models/transaction.model';
+import User from '@/lib/database/models/user.model';
+import { grantSubscriptionCredits } from '@/lib/subscriptions';
+
+import { clearDatabase, createTestUser, setUpDatabase } from './database';
+import {
+  buildStripeEvent,
+  describeWithStripeMock,
+  postStripeEvent,
+  stripeMock,
+} from './stripe-mock';
+
+const stripe = stripeMock();
+const plan = subscriptionPlans[0];
+
+type TestUser = Awaited<ReturnType<typeof createTestUser>>;
+
+const metadataFor = (user: TestUser) => ({
+  subscriptionPlan: plan._id,
+  buyerId: user._id.toString(),
+});
+
+// stripe-mock returns a valid fixture for any id; the fields the webhook
+// reads are set to describe the test user's subscription.
+const mockSubscription = async (
+  user: TestUser,
+  status: Stripe.Subscription.Status
+): Promise<Stripe.Subscription> => {
+  const subscription = await stripe.subscriptions.retrieve('sub_test');
+
+  return {
+    ...subscription,
+    id: `sub_${user._id}`,
+    customer: user.stripeCustomerId,
+    status,
+    current_period_end: Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60,
+    metadata: metadataFor(user),
+  };
+};
+
+const mockInvoice = async (
+  user: TestUser,
+  billingReason: Stripe.Invoice.BillingReason
+): Promise<Stripe.Invoice> => {
+  const invoice = await stripe.invoices.retrieve('in_test');
+
+  return {
+    ...invoice,
+    id: `in_${randomUUID()}`,
+    customer: user.stripeCustomerId,
+    subscription: `sub_${user._id}`,
+    billing_reason: billingReason,
+    amount_paid: plan.price * 100,
+    payment_intent: `pi_${randomUUID()}`,
+    subscription_details: { metadata: metadataFor(user) },
+  };
+};
+
+const creditBalanceOf = async (user: TestUser) =>
+  (await User.findById(user._id)).creditBalance;
+
+describeWithStripeMock('Stripe subscription webhooks', () => {
+  beforeAll(setUpDatabase);
+  beforeEach(clearDatabase);
+  afterAll(() => mongoose.disconnect());
+
+  it("grants the plan's credits for every paid billing cycle", async () => {
+    const user = await createTestUser();
+
+    for (const billingReason of [
+      'subscription_create',
+      'subscription_cycle',
+    ] as const) {
+      const invoice = await mockInvoice(user, billingReason);
+      const response = await postStripeEvent(
+        buildStripeEvent('invoice.paid', invoice)
+      );
+
+      expect(response).toEqual({
+        status: 200,
+        body: { message: 'OK', processed: true },
+      });
+    }
+
+    expect(await creditBalanceOf(user)).toBe(
+      user.creditBalance + 2 * plan.credits
+    );
+    expect(await Transaction.countDocuments({ buyer: user._id })).toBe(2);
+    expect(
+      await CreditLedgerEntry.countDocuments({
+        user: user._id,
+        reason: 'subscription',
+        amount: plan.credits,
+      })
+    ).toBe(2);
+  });
+
+  it('does not grant credits again when an event is replayed', async () => {
+    const user = await createTestUser();
+    const event = buildStripeEvent(
+      'invoice.paid',
+      await mockInvoice(user, 'subscription_cycle')
+    );
+
+    const first = await postStripeEvent(event);
+    const replay = await postStripeEvent(event);
+
+    expect(first.body.processed).toBe(true);
+    expect(replay).toEqual({
+      status: 200,
+      body: { message: 'OK', processed: false },
+    });
+    expect(await creditBalanceOf(user)).toBe(user.creditBalance + plan.credits);
+    expect(await Transaction.countDocuments({ buyer: user._id })).toBe(1);
+  });
+
+  it('grants nothing for invoices that do not start a billing cycle', async () => {
+    const user = await createTestUser();
+    const invoice = await mockInvoice(user, 'subscription_update');
+
+    const transaction = await mongoose.connection.transaction((session) =>
+      grantSubscriptionCredits(invoice, session)
+    );
+
+    expect(transaction).toBeNull();
+    expect(await creditBalanceOf(user)).toBe(user.creditBalance);
+  });
+
+  it('puts the user on the plan when the subscription is updated', async () => {
+    const user = await createTestUser();
+    const subscription = await mockSubscription(user, 'active');
+
+    const response = await postStripeEvent(
+      buildStripeEvent('customer.subscription.updated', subscription)
+    );
+    const updatedUser = await User.findById(user._id);
+
+    expect(response.status).toBe(200);
+    expect(updatedUser.planId).toBe(String(plan.planId));
+    expect(updatedUser.subscription).toMatchObject({
+      id: subscription.id,
+      plan: plan._id,
+      status: 'active',
+    });
+  });
+
+  it('clears the subscription when it is cancelled', async () => {
+    const user = await createTestUser();
+
+    await postStripeEvent(
+      buildStripeEvent(
+        'customer.subscription.updated',
+        await mockSubscription(user, 'active')
+      )
+    );
+
+    const response = await postStripeEvent(
+      buildStripeEvent(
+        'customer.subscription.deleted',
+        await mockSubscription(user, 'canceled')
+      )
+    );
+    const updatedUser = await User.findById(user._id);
+
+    expect(response.status).toBe(200);
+    expect(updatedUser.planId).toBe(String(freePlanId));
+    expect(updatedUser.subscription).toBeNull();
+  });
+
+  it('keeps a newer subscription when an old one is cancelled', async () => {
+    const user = await createTestUser();
+    const current = await mockSubscription(user, 'active');
+
+    await postStripeEvent(
+      buildStripeEvent('customer.subscription.updated', current)
+    );
+    await postStripeEvent(
+      buildStripeEvent('customer.subscription.deleted', {
+        ...current,
+        id: 'sub_old',
+        status: 'canceled',
+      })
+    );
+
+    expect((await User.findById(user._id)).subscription?.id).toBe(current.id);
+  });
+});
@@ -25,15 +25,21 @@ declare type AddImageParams = {
     transformationType: string;
     width: number;
     height: number;
-    config: any;
     secureURL: string;
-    transformationURL: string;
     aspectRatio: string | undefined;
     prompt: string | undefined;
     color: string | undefined;
+    visibility?: ImageVisibility;
+    tags?: string[];
+    jobIds?: string[];
   };
   userId: string;
   path: string;
+  // Given, the new image is recorded as a remix of this one.
+  remix?: {
+    imageId: string;
+    shareToken?: string;
+  };
 };
 
 declare type UpdateImageParams = {
@@ -44,17 +50,82 @@ declare type UpdateImageParams = {
     transformationType: string;
     width: number;
     height: number;
-    config: any;
     secureURL: string;
-    transformationURL: string;
     aspectRatio: string | undefined;
     prompt: string | undefined;
     color: string | undefined;
+    visibility?: ImageVisibility;
+    tags?: string[];
+    jobIds?: string[];
   };
   userId: string;
   path: string;
 };
 
+declare type ImageVisibility = 'private' | 'unlisted' | 'public';
+
+declare type UpdateImageVisibilityParams = {
+  imageId: string;
+  visibility: ImageVisibility;
+  path: string;
+};
+
+declare type ImageSortKey = 'newest' | 'oldest' | 'views' | 'likes';
+
+// Gallery filters, as read from the URL. Unknown values are ignored.
+declare type ImageFilterParams = {
+  type?: string;
+  author?: string;
+  aspectRatio?: string;
+  tag?: string;
+  from?: string;
+  to?: string;
+  sort?: string;
+};
+
+declare type ImageFacet = {
+  value: string;
+  label?: string;
+  count: number;
+};
+
+declare type ImageFacets = {
+  types: ImageFacet[];
+  aspectRatios: ImageFacet[];
+  authors: ImageFacet[];
+  tags: ImageFacet[];
+};
+
+declare type ApplyTransformationParams = {
+  type: TransformationTypeKey;
+  config: Transformations | null;
+  publicId: string;
+  aspectRatio?: string;
+  // Lets a remix of an unlisted image start from that image's upload.
+  shareToken?: string;
+};
+
+declare type ApplyBatchTransformationParams = {
+  type: TransformationTypeKey;
+  config: Transformations | null;
+  publicIds: string[];
+  aspectRatio?: string;
+};
+
+// One step of a transformation pipeline. Applied steps record the asset they
+// were generated from, so a step is only valid while its input is unchanged.
+declare type TransformationStep = {
+  type: TransformationTypeKey;
+  aspectRatio?: string;
+  prompt?: string;
+  color?: string;
+  config?: Transformations;
+  jobId?: string;
+  sourcePublicId?: string;
+  derivedPublicId?: string;
+  derivedURL?: string;
+};
+
 declare type Transformations = {
   restore?: boolean;
   fillBackground?: boolean;
@@ -71,23 +142,175 @@ declare type Transformations = {
   removeBackground?: boolean;
 };
 
+// ====== IMAGE PROVIDER
+declare type UploadedAsset = {
+  publicId: string;
+  width: number;
+  height: number;
+  secureURL: string;
+};
+
+declare type TransformationUrlParams = {
+  publicId: string;
+  width?: number;
+  height?: number;
+  config?: Transformations | null;
+};
+
+declare type TransformationStatus = 'ready' | 'processing' | 'failed';
+
+declare type TransformationJobStatus =
+  | 'queued'
+  | 'processing'
+  | 'succeeded'
+  | 'failed';
+
+declare type TransformationJobResult = {
+  id: string;
+  status: TransformationJobStatus;
+  derivedPublicId?: string;
+  derivedURL?: string;
+  error?: string;
+  refundedCredits?: number;
+  creditBalance: number;
+};
+
+declare type ImageProvider = {
+  upload: (file: Buffer, filename: string) => Promise<UploadedAsset>;
+  getAsset: (publicId: string) => Promise<{ width: number; height: number }>;
+  getTransformationUrl: (params: TransformationUrlParams) => string;
+  probeTransformation: (
+    params: TransformationUrlParams
+  ) => Promise<TransformationStatus>;
+  // Resolves to null while the provider is still generating the asset.
+  createDerivedAsset: (
+    params: TransformationUrlParams
+  ) => Promise<UploadedAsset | null>;
+  delete: (publicId: string) => Promise<void>;
+};
+
+// ====== ALBUM PARAMS
+declare type CreateAlbumParams = {
+  album: {
+    title: string;
+    description?: string;
+    visibility?: ImageVisibility;
+  };
+  path: string;
+};
+
+declare type AlbumImageParams = {
+  albumId: string;
+  imageId: string;
+  path: string;
+};
+
+declare type MoveAlbumImageParams = AlbumImageParams & {
+  // -1 moves the image one place towards the start, 1 towards the end.
+  direction: -1 | 1;
+};
+
+declare type UpdateAlbumVisibilityParams = {
+  albumId: string;
+  visibility: ImageVisibility;
+  path: string;
+};
+
+// ====== LIKE PARAMS
+declare type SetImageLikeParams = {
+  imageId: string;
+  liked: boolean;
+  // Lets viewers of an unlisted image like it.
+  shareToken?: string;
+};
+
+// ====== COMMENT PARAMS
+declare type GetImageCommentsParams = {
+  imageId: string;
+  shareToken?: string;
+  cursor?: string | null;
+  limit?: number;
+};
+
+declare type AddCommentParams = {
+  imageId: string;
+  // Given, the comment is a reply to this comment.
+  parentId?: string;
+  body: string;
+  shareToken?: string;
+  path: string;
+};
+
+declare type UpdateCommentParams = {
+  commentId: string;
+  body: string;
+  path: string;
+};
+
+declare type DeleteCommentParams = {
+  commentId: string;
+  path: string;
+};
+
+// ====== PRESET PARAMS
+declare type CreatePresetParams = {
+  preset: {
+    name: string;
+    transformationType: TransformationTypeKey;
+    aspectRatio?: string;
+    prompt?: string;
+    color?: string;
+  };
+  path: string;
+};
+
 // ====== TRANSACTION PARAMS
 declare type CheckoutTransactionParams = {
   plan: string;
-  credits: number;
-  amount: number;
-  buyerId: string;
+  promoCode?: string;
 };
 
-declare type CreateTransactionParams = {
-  stripeId: string;
-  amount: number;
-  credits: number;
-  plan: string;
-  buyerId: string;
-  createdAt: Date;
+declare type PromoCodeKind = 'percent_off' | 'fixed_off' | 'bonus_credits';
+
+declare type TransactionStatus =
+  | 'paid'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'disputed'
+  | 'dispute_won'
+  | 'dispute_lost';
+
+declare type TransactionEventType =
+  | 'refund'
+  | 'dispute_opened'
+  | 'dispute_won'
+  | 'dispute_lost';
+
+declare type WebhookEventStatus = 'received' | 'processed' | 'failed';
+
+// ====== CREDIT PARAMS
+declare type CreditReason =
+  | 'signup'
+  | 'purchase'
+  | 'subscription'
+  | 'transformation'
+  | 'refund'
+  | 'clawback'
+  | 'adjustment';
+
+declare type CreditReference = {
+  kind: 'transaction' | 'image' | 'stripe' | 'ledger';
+  id: string;
 };
 
+declare type CreditChange = {
+  reason: CreditReason;
+  reference?: CreditReference;
+  details?: Record<string, any>;
+};
+
+declare type ClawbackPolicy = 'negative' | 'freeze';
+
 declare type TransformationTypeKey =
   | 'restore'
   | 'fill'
@@ -118,13 +341,36 @@ declare type SearchParamProps = {
   searchParams: { [key: string]: string | string[] | undefined };
 };
 
+// An image opened for remixing, and the upload it may be remixed from.
+declare type RemixSource = {
+  _id: string;
+  title: string;
+  aspectRatio?: string;
+  prompt?: string;
+  color?: string;
+  // The source's transformation steps, without their results, so the
+  // remix runs them again.
+  config: TransformationStep[];
+  shareToken?: string;
+  upload: {
+    publicId: string;
+    width: number;
+    height: number;
+    secureURL: string;
+  } | null;
+};
+
 declare type TransformationFormProps = {
   action: 'Add' | 'Update';
   userId: string;
   type: TransformationTypeKey;
   creditBalance: number;
+  planId: number;
   data?: IImage | null;
   config?: Transformations | null;
+  presets?: IPreset[];
+  preset?: IPreset | null;
+  remix?: RemixSource | null;
 };
 
 declare type TransformedImageProps = {
@@ -135,4 +381,5 @@ declare type TransformedImageProps = {
   isTransforming: boolean;
   hasDownload?: boolean;
   setIsTransforming?: React.Dispatch<React.SetStateAction<boolean>>;
+  onTransformationError?: () => void;
 };
@@ -0,0 +1,19 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    globalSetup: ['./tests/global-setup.ts'],
+    setupFiles: ['./tests/setup.ts'],
+    // Every test file shares one database.
+    fileParallelism: false,
+    // The first run downloads a MongoDB binary.
+    hookTimeout: 120000,
+    testTimeout: 30000,
+  },
+});